@@ -1,13 +1,22 @@
+import { EventEmitter } from "events";
+
 import Task from "./src/task.js";
 import taskStore from "./src/task-store.js";
 import TaskExecutor from "./src/task-executor.js";
 import TaskExecutorRegistry from "./src/task-registry.js";
 import WorkerManager from "./src/worker-manager.js";
 import { AdapterType, PrismaAdapter, MySQLAdapter } from "./src/database-adapter.js";
-import { batch, single } from "./src/task-strategies.js";
+import RateLimiter from "./src/rate-limiter.js";
+import DeadLetterQueue from "./src/dead-letter-queue.js";
+import ResultStore from "./src/result-store.js";
+import MetricsRegistry from "./src/metrics.js";
+import { batch, single, createDispatchStats } from "./src/task-strategies.js";
 
 import { getFileParts } from "./src/lib/files.js";
+import { DEFAULT_RETRY_POLICY, getRetryDelay } from "./src/lib/backoff.js";
 import { maybeGenerateTypes, hasProperty } from "./src/lib/util.js";
+import { toPrometheusText } from "./src/lib/prometheus.js";
+import { createLogger, taskFields, withFields } from "./src/lib/logger.js";
 
 import type {
 	QueueOptions,
@@ -15,9 +24,44 @@ import type {
 	TaskStatus,
 	TaskResult,
 	TaskValidationRule,
-	AdapterImplementation
+	AdapterImplementation,
+	QueueEvents,
+	QueueEvent,
+	DrainOptions,
+	DrainResult,
+	InFlightTask,
+	TaskProgress,
+	TaskOutcome,
+	RateLimit,
+	DispatchStats,
+	DedupePolicy,
+	PauseState,
+	DeadLetter,
+	DeadLetterFilter,
+	RetryPolicy,
+	RetryStrategy,
+	RetryRule,
+	AgingPolicy,
+	RunOptions,
+	CrashPolicy,
+	TimeoutMode,
+	BulkAddOptions,
+	BulkAddResult,
+	TaskUpdate,
+	StoredResult,
+	ResultStoreOptions,
+	WaitForResultOptions,
+	Metric,
+	MetricLabels,
+	MetricType,
+	Logger,
+	LogFields,
+	LogLevel
 } from "./types/index.d.ts";
 
+/** Maximum number of finished task outcomes kept in memory to resolve dependencies */
+const MAX_TRACKED_OUTCOMES = 10000;
+
 /**
  * A robust task queue system that manages task execution, scheduling, and worker management.
  *
@@ -35,8 +79,18 @@ import type {
  * // Process any pending tasks automatically every 30 seconds
  * await queue.runAutomatically(30);
  * ```
+ *
+ * The queue emits typed lifecycle events for every task state transition,
+ * see {@link QueueEvents} for the available events and their arguments.
+ *
+ * @example
+ * ```typescript
+ * queue.on("completed", (task, result) => {
+ *   console.log(`${task.name} finished`, result);
+ * });
+ * ```
  */
-export default class Queue {
+export default class Queue extends EventEmitter<QueueEvents> {
 	public id: string;
 
 	/** Directory containing task definitions and implementations */
@@ -48,15 +102,90 @@ export default class Queue {
 	/** Internal array of tasks waiting to be executed */
 	#taskStack: Task[] = [];
 
+	/** Tasks that have been sent to a worker and haven't reported back yet, keyed by task uid */
+	#inFlight: Map<string, InFlightTask> = new Map();
+
+	/** Number of updates being persisted per queued task, the task isn't dispatched in the meantime */
+	#updating: Map<string, number> = new Map();
+
+	/** Timers recycling the worker of a task that doesn't stop after its hard timeout, keyed by task uid */
+	#timeoutTimers: Map<string, NodeJS.Timeout> = new Map();
+
+	/** Final outcomes of finished tasks, used to release their dependents */
+	#outcomes: Map<string, TaskOutcome> = new Map();
+
 	/** Registry of available task executors */
 	#taskExecutors: TaskExecutorRegistry;
 
 	/** Storage layer for task persistence and database operations */
 	#taskStore: taskStore;
 
+	/** Rate limiter applied to task types before dispatch */
+	#rateLimiter: RateLimiter;
+
+	/** Tasks that ultimately failed */
+	#deadLetters: DeadLetterQueue;
+
+	/** Results of finished tasks, null when result storage is disabled */
+	#results: ResultStore | null;
+
+	/** Counters, gauges and histograms describing the queue and its workers */
+	#metrics: MetricsRegistry;
+
+	/** Logger adding the queue id to every entry */
+	#logger: Logger;
+
+	/** Maximum number of running tasks per task type configured on the queue */
+	#concurrency: Record<string, number>;
+
+	/** How tasks with an idempotency key that is already queued or running are handled by default */
+	#dedupePolicy: DedupePolicy;
+
+	/** How the priority of waiting tasks is raised, if at all */
+	#aging: AgingPolicy | null;
+
+	/** Counter giving every added task its position in line */
+	#sequence: number = 0;
+
+	/** Milliseconds a cancelled running task gets to stop before its worker is recycled */
+	#cancelGracePeriodMs: number;
+
+	/** Whether timed out tasks have to stop before they settle */
+	#timeoutMode: TimeoutMode;
+
+	/** Milliseconds a timed out task gets to stop before its worker is recycled, with hard timeouts */
+	#timeoutGracePeriodMs: number;
+
+	/** Flag indicating if processing of all tasks is paused */
+	#paused: boolean = false;
+
+	/** Task types whose processing is paused */
+	#pausedTypes: Set<string> = new Set();
+
+	/** Flag indicating if the paused state is persisted through the task store */
+	#persistPauseState: boolean;
+
 	/** Flag indicating if the automatic execution loop has been initialized */
 	#loopInitialized: boolean = false;
 
+	/** The execution cycle currently in progress, if any */
+	#cycle: Promise<unknown> | null = null;
+
+	/** Interrupts the sleep between execution cycles */
+	#wake: (() => void) | null = null;
+
+	/** Flag indicating if the loop dispatches on events instead of a fixed interval */
+	#eventDriven: boolean = false;
+
+	/** Flag indicating if an event asked for another execution cycle */
+	#dispatchRequested: boolean = false;
+
+	/** The database sync loop running next to the event-driven dispatcher, if any */
+	#syncLoop: Promise<void> | null = null;
+
+	/** Interrupts the sleep between database syncs */
+	#stopSync: (() => void) | null = null;
+
 	/**
 	 * Creates a new Queue instance.
 	 *
@@ -74,6 +203,8 @@ export default class Queue {
 	 * ```
 	 */
 	constructor(taskDirectory: string, options: QueueOptions = {}) {
+		super();
+
 		if (typeof taskDirectory === "undefined") {
 			throw new Error(
 				`[ERROR] Property "taskDirectory" is required in a new Queue()`
@@ -84,16 +215,56 @@ export default class Queue {
 
 		this.taskDirectory = taskDirectory;
 
-		maybeGenerateTypes(this.taskDirectory);
+		this.#logger = withFields(createLogger(options.logger, options.logLevel), {
+			queueId: this.id,
+		});
+
+		maybeGenerateTypes(this.taskDirectory, this.#logger);
+
+		const {
+			db,
+			workerPrefix,
+			maxWorkers,
+			rateLimits,
+			concurrency,
+			dedupePolicy,
+			persistPauseState,
+			aging,
+			cancelGracePeriodMs,
+			timeoutMode,
+			timeoutGracePeriodMs,
+			results,
+		} = options;
 
-		const { db, workerPrefix, maxWorkers } = options;
+		if (aging && !(aging.intervalMs > 0)) {
+			throw new Error(
+				`[ERROR] Property "aging.intervalMs" must be a positive number`
+			);
+		}
 
 		this.workers = new WorkerManager(this, taskDirectory, {
 			workerPrefix: workerPrefix || `${this.id}-worker-`,
 			maxWorkers: maxWorkers || 3,
+			timeoutMode: timeoutMode || "soft",
+			logLevel: options.logger === "silent" ? "silent" : options.logLevel || "info",
 		});
 		this.#taskStore = new taskStore(this);
-		this.#taskExecutors = new TaskExecutorRegistry();
+		this.#taskExecutors = new TaskExecutorRegistry(this.#logger);
+		this.#rateLimiter = new RateLimiter(rateLimits);
+		this.#deadLetters = new DeadLetterQueue(this);
+		this.#results = results
+			? new ResultStore(this, typeof results === "object" ? results : {})
+			: null;
+		this.#metrics = new MetricsRegistry();
+		this.#concurrency = concurrency || {};
+		this.#dedupePolicy = dedupePolicy || "ignore";
+		this.#persistPauseState = persistPauseState || false;
+		this.#aging = aging || null;
+		this.#cancelGracePeriodMs = cancelGracePeriodMs ?? 5000;
+		this.#timeoutMode = timeoutMode || "soft";
+		this.#timeoutGracePeriodMs = timeoutGracePeriodMs ?? 5000;
+
+		this.#defineMetrics();
 
 		if (db) this.setDatabase(db);
 	}
@@ -121,17 +292,31 @@ export default class Queue {
 
 		await this.#taskExecutors.initialize(this.taskDirectory);
 
+		if (this.#persistPauseState) {
+			const state = await this.#taskStore.loadPauseState();
+
+			if (state) {
+				this.#paused = state.paused;
+				this.#pausedTypes = new Set(state.pausedTypes);
+			}
+		}
+
 		return this;
 	}
 
 	/**
-	 * Sets the database connection for the queue and all of its active workers.
+	 * Sets the database connection for the queue and all of its active workers, and checks
+	 * the tasks table for the columns of optional features.
 	 *
 	 * @param db - Database adaptor instance for database operations
 	 */
 	public setDatabase(adaptor: AdapterImplementation) {
 		this.#taskStore.dbAdaptor = adaptor;
-		console.log(`[${this.id}] 🔗 Database connection set with ${adaptor.type} client`);
+		this.#logger.info({ client: adaptor.type }, `Database connection set with ${adaptor.type} client`);
+
+		this.#taskStore.inspectSchema().catch((err) => {
+			this.#logger.error({ err }, "Database schema check failed");
+		});
 	}
 
 	/**
@@ -141,9 +326,14 @@ export default class Queue {
 	 * and executing them at regular intervals. It also syncs with the database
 	 * to ensure task state consistency.
 	 *
+	 * In `event` mode tasks are dispatched as soon as they are added, a worker reports back
+	 * or a scheduled task becomes due. The delay is then the longest the dispatcher waits
+	 * without an event, and the database is synced on its own interval.
+	 *
 	 * NOTE: Do NOT await this function, IT WILL BLOCK THE REST OF YOUR SCRIPT
 	 *
 	 * @param delay - Delay between execution cycles in seconds
+	 * @param options - Dispatch mode and database sync interval
 	 * @returns Promise that resolves when the loop is stopped
 	 *
 	 * @example
@@ -153,31 +343,251 @@ export default class Queue {
 	 *
 	 * // Run tasks every 2 minutes
 	 * await queue.runAutomatically(120);
+	 *
+	 * // Run tasks as soon as possible, syncing with the database every 10 seconds
+	 * await queue.runAutomatically(60, { mode: "event", syncInterval: 10 });
 	 * ```
 	 */
-	public async runAutomatically(timeout: number) {
+	public async runAutomatically(timeout: number, options: RunOptions = {}) {
+		const { mode = "interval", syncInterval = timeout } = options;
+
 		this.#loopInitialized = true;
 
+		if (mode === "event") return this.#runEventDriven(timeout, syncInterval);
+
 		const readableDuration = timeout >= 60 ? timeout / 60 : timeout;
 		const suffix =
 			timeout >= 60 ? (timeout === 60 ? "minute" : "minutes") : "seconds";
 
 		while (this.#loopInitialized) {
-			await this.#taskStore.syncWithDB();
+			try {
+				this.#cycle = this.#taskStore.syncWithDB();
+				await this.#cycle;
 
-			const pendingTasks = this.getPendingTasks();
+				this.#cycle = this.#expireStaleTasks();
+				await this.#cycle;
 
-			if (pendingTasks.length === 0) {
-				await new Promise((resolve) => setTimeout(resolve, timeout * 1000));
-				continue;
+				const pendingTasks = this.getPendingTasks();
+
+				if (pendingTasks.length > 0 && this.#loopInitialized) {
+					this.#logger.debug(
+						{ pending: pendingTasks.length },
+						`Running pending tasks (every ${readableDuration} ${suffix})`
+					);
+
+					this.#cycle = this.runTasks(pendingTasks);
+					await this.#cycle;
+				}
+			} catch (err) {
+				this.#logger.error({ err }, "Task execution cycle failed");
 			}
 
-			console.log(
-				`[${this.id}] 🧹 Running pending tasks (every ${readableDuration} ${suffix})`
-			);
+			await this.#sleep(timeout * 1000);
+		}
+
+		this.#cycle = null;
+	}
+
+	/**
+	 * Stops the automatic execution loop started by {@link runAutomatically}.
+	 *
+	 * No new tasks are pulled from the queue or the database after this call,
+	 * tasks that are already running in a worker are left untouched.
+	 *
+	 * @returns Promise that resolves once the execution cycle in progress has finished
+	 *
+	 * @example
+	 * ```typescript
+	 * await queue.stop();
+	 * ```
+	 */
+	public async stop(): Promise<void> {
+		this.#loopInitialized = false;
+		this.#wake?.();
+		this.#stopSync?.();
+
+		// Failed cycles are logged by the loop
+		await Promise.all([this.#cycle?.catch(() => {}), this.#syncLoop]);
+	}
+
+	/**
+	 * Gracefully shuts the queue down.
+	 *
+	 * This method:
+	 * - Stops the automatic execution loop
+	 * - Waits for the tasks running in the workers to finish, up to `timeoutMs`
+	 * - Waits for the final state of those tasks to be persisted
+	 * - Persists the tasks still waiting in the queue, and the tasks sent to a worker that didn't
+	 *   report back in time, so they are picked up after a restart
+	 * - Shuts down all workers, killing them if the timeout was exceeded
+	 *
+	 * @param options - Drain options
+	 * @returns Whether all in-flight tasks finished and how many queued tasks were left pending
+	 *
+	 * @example
+	 * ```typescript
+	 * process.on("SIGTERM", async () => {
+	 *   await queue.drain({ timeoutMs: 10000 });
+	 *   process.exit(0);
+	 * });
+	 * ```
+	 */
+	public async drain(options: DrainOptions = {}): Promise<DrainResult> {
+		const { timeoutMs = 30000 } = options;
+		const deadline = Date.now() + timeoutMs;
+
+		await this.stop();
+
+		let drained = await this.workers.drain(timeoutMs);
+
+		// Workers only report their own load, tasks the queue still tracks may not have reported back
+		while (this.#inFlight.size > 0 && Date.now() < deadline) {
+			await new Promise((resolve) => setTimeout(resolve, 50));
+		}
+
+		// Tasks that never reported back are persisted as pending below so they aren't lost
+		for (const { task, workerId } of this.#inFlight.values()) {
+			this.#inFlight.delete(task.uid);
+			this.#clearTimeoutTimer(task.uid);
+
+			task.status = "pending";
+			task.startedAt = undefined;
+			task.progress = 0;
+
+			this.#taskStack.push(task);
+			drained = false;
+
+			this.#logger.warn({ ...taskFields(task), workerId }, `"${task.name}" didn't report back before the drain timed out`);
+		}
+
+		for (const task of this.#taskStack) {
+			try {
+				await this.#taskStore.saveTask({ task, error: null, result: null });
+			} catch (err) {
+				this.#logger.error({ ...taskFields(task), err }, `Failed to save "${task.name}"`);
+			}
+		}
+
+		this.workers.shutdown(!drained);
+
+		this.#logger.info(
+			{ drained, pending: this.#taskStack.length },
+			`Queue drained${drained ? "" : " (timed out)"}, ${this.#taskStack.length} task(s) left pending`
+		);
+
+		return { drained, pending: this.#taskStack.length };
+	}
+
+	#sleep(ms: number): Promise<void> {
+		return new Promise((resolve) => {
+			const timer = setTimeout(resolve, ms);
+
+			this.#wake = () => {
+				clearTimeout(timer);
+				resolve();
+			};
+		});
+	}
+
+	async #runEventDriven(timeout: number, syncInterval: number) {
+		this.#eventDriven = true;
+		this.#syncLoop = this.#syncPeriodically(syncInterval);
+
+		this.#logger.info(
+			{ syncInterval },
+			`Running pending tasks as they become available (syncing every ${syncInterval} seconds)`
+		);
+
+		while (this.#loopInitialized) {
+			this.#dispatchRequested = false;
+
+			try {
+				this.#cycle = this.#expireStaleTasks();
+				await this.#cycle;
+
+				const pendingTasks = this.getPendingTasks();
+
+				if (pendingTasks.length > 0) {
+					this.#cycle = this.runTasks(pendingTasks);
+					await this.#cycle;
+				}
+			} catch (err) {
+				this.#logger.error({ err }, "Task execution cycle failed");
+			}
+
+			// Events that came in during the cycle are handled right away
+			if (!this.#loopInitialized || this.#dispatchRequested) continue;
+
+			await this.#sleep(this.#nextWakeDelay(timeout * 1000));
+		}
+
+		this.#eventDriven = false;
+		this.#cycle = null;
+
+		await this.#syncLoop;
+		this.#syncLoop = null;
+	}
+
+	async #syncPeriodically(interval: number) {
+		while (this.#loopInitialized) {
+			try {
+				await this.#taskStore.syncWithDB();
+			} catch (err) {
+				this.#logger.error({ err }, "Database sync error");
+			}
+
+			// Dependencies may have been resolved by the sync
+			this.#requestDispatch();
+
+			await new Promise<void>((resolve) => {
+				const timer = setTimeout(resolve, interval * 1000);
+
+				this.#stopSync = () => {
+					clearTimeout(timer);
+					resolve();
+				};
+			});
+		}
+
+		this.#stopSync = null;
+	}
+
+	// Wakes the event-driven dispatcher, a request during a cycle starts another cycle right after it
+	#requestDispatch() {
+		if (!this.#eventDriven) return;
+
+		this.#dispatchRequested = true;
+		this.#wake?.();
+	}
 
-			await this.runTasks(pendingTasks);
-			await new Promise((resolve) => setTimeout(resolve, timeout * 1000));
+	// Time until the nearest scheduled task becomes due or expires, or a rate-limited type may
+	// be dispatched again, capped at the maximum idle time
+	#nextWakeDelay(maxDelay: number): number {
+		const now = Date.now();
+		let delay = Math.min(maxDelay, this.#rateLimiter.nextReopenDelay(now) ?? maxDelay);
+
+		for (const task of this.#taskStack) {
+			for (const date of [task.runAt, task.expiresAt]) {
+				const time = date?.getTime();
+
+				if (time && time > now) delay = Math.min(delay, time - now);
+			}
+		}
+
+		return delay;
+	}
+
+	// Expires the queued tasks whose deadline passed, including the ones held back by a paused type,
+	// unmet dependencies or a concurrency limit that are never considered for dispatch
+	async #expireStaleTasks() {
+		const now = new Date();
+
+		for (const task of this.#taskStack.filter((task) => task.isExpired(now))) {
+			try {
+				await this.expireTask(task);
+			} catch (err) {
+				this.#logger.error({ ...taskFields(task), err }, `Failed to expire "${task.name}"`);
+			}
 		}
 	}
 
@@ -190,6 +600,19 @@ export default class Queue {
 		else return "single";
 	}
 
+	// Orders tasks by effective priority, then by the order they were added in
+	#compareTasks(now: number) {
+		return (a: Task, b: Task): number => {
+			const priority = this.getEffectivePriority(b, now) - this.getEffectivePriority(a, now);
+			if (priority !== 0) return priority;
+
+			const enqueued = (a.enqueuedAt?.getTime() ?? 0) - (b.enqueuedAt?.getTime() ?? 0);
+			if (enqueued !== 0) return enqueued;
+
+			return a.sequence - b.sequence;
+		};
+	}
+
 	/**
 	 * Executes all pending tasks that are ready to run.
 	 *
@@ -207,44 +630,53 @@ export default class Queue {
 	 */
 	public async runTasks(tasks?: Task[]) {
 		if (!tasks) tasks = this.getPendingTasks();
+		else tasks = tasks.filter((task) => !this.isPaused(task.type));
 
 		const taskLoad = tasks.length;
 		const sendStrategy = this.#getStrategy(taskLoad);
 
 		// Return empty stats if no tasks have been executed.
 		if (taskLoad === 0) {
-			return {
-				tasksSent: 0,
-				noWorkerAvailable: 0,
-				noExecutorFound: 0,
-				validationFailed: 0,
-			};
+			return createDispatchStats();
 		}
 
-		if (taskLoad > 1) await this.scheduleTasks();
+		if (taskLoad > 1) {
+			await this.scheduleTasks();
+
+			// The tasks to send are a copy of the stack, order them the same way
+			tasks.sort(this.#compareTasks(Date.now()));
+		}
 
 		const maxTasksAbleToSend = this.workers.map(worker => {
 			return worker.maxConcurrentTasks - (worker.cachedInfo?.taskLoad || 0);
-		}).reduce((acc, curr) => acc += curr);
+		}).reduce((acc, curr) => acc += curr, 0);
 
-		console.log(
-			`[${this.id}] 🚀 Sending ${maxTasksAbleToSend} pending`,
-			taskLoad > 1 ? "tasks" : "task",
-			"to available workers"
+		this.#logger.debug(
+			{ pending: taskLoad, capacity: maxTasksAbleToSend },
+			`Sending ${maxTasksAbleToSend} pending ${taskLoad > 1 ? "tasks" : "task"} to available workers`
 		);
 
-		if (sendStrategy === "single") {
-			return await single(this, tasks);
-		} else {
-			return await batch(this, tasks);
+		const stats = sendStrategy === "single"
+			? await single(this, tasks)
+			: await batch(this, tasks);
+
+		for (const [outcome, count] of Object.entries(stats)) {
+			this.#metrics.inc(
+				"anqueue_dispatch_total",
+				{ outcome: outcome.replace(/[A-Z]/g, (char) => `_${char.toLowerCase()}`) },
+				count
+			);
 		}
+
+		return stats;
 	}
 
 	/**
 	 * Sorts and schedules tasks based on priority and creation time.
 	 *
-	 * Tasks are sorted by priority (higher priority first) and then by
-	 * creation time (earlier tasks first).
+	 * Tasks are sorted by their effective priority (higher priority first) and then in
+	 * the order they were added (earlier tasks first). The effective priority is the
+	 * task's priority raised by the queue's aging policy, see {@link getEffectivePriority}.
 	 *
 	 * @returns Promise that resolves when scheduling is complete
 	 *
@@ -254,198 +686,1492 @@ export default class Queue {
 	 * ```
 	 */
 	public async scheduleTasks(): Promise<void> {
-		console.log(`[${this.id}] 📅 Scheduling tasks...`);
-
-		// Sort tasks by priority and creation time
-		this.#taskStack.sort((a, b) => {
-			// Higher priority first
-			if (a.priority !== b.priority) {
-				return b.priority - a.priority;
-			}
+		this.#logger.debug({}, "Scheduling tasks");
 
-			// Earlier tasks first (assuming tasks are added in order)
-			return 0;
-		});
+		this.#taskStack.sort(this.#compareTasks(Date.now()));
 	}
 
 	/**
-	 * Gets the task store instance for database operations.
+	 * Gets the priority a task is scheduled with.
 	 *
-	 * @returns #taskStore instance
-	 */
-	public get store(): taskStore {
-		return this.#taskStore;
-	}
-
-	/**
-	 * Gets the task executor registry instance.
+	 * When an aging policy is configured the priority is raised by `step` for every
+	 * `intervalMs` the task has been waiting since it was added or became due, up to `maxBoost`.
 	 *
-	 * @returns TaskExecutorRegistry instance
+	 * @param task - The task
+	 * @param now - The time to calculate the wait time at, in milliseconds
+	 * @returns The effective priority
 	 */
-	public get executorRegistry(): TaskExecutorRegistry {
-		return this.#taskExecutors;
+	public getEffectivePriority(task: Task, now: number = Date.now()): number {
+		if (!this.#aging || !task.enqueuedAt) return task.priority;
+
+		const { intervalMs, step = 1, maxBoost = Infinity } = this.#aging;
+		const waitingSince = Math.max(task.enqueuedAt.getTime(), task.runAt?.getTime() ?? 0);
+		const intervals = Math.floor(Math.max(0, now - waitingSince) / intervalMs);
+
+		return task.priority + Math.min(maxBoost, intervals * step);
 	}
 
 	/**
-	 * Adds a task to the queue.
+	 * Pauses processing of all tasks.
 	 *
-	 * @param task - Task instance to add to the queue
-	 * @returns The queue instance for method chaining
+	 * Tasks can still be added while the queue is paused, they are dispatched once it is resumed.
+	 * Tasks that are already running are not affected.
+	 *
+	 * @returns Promise that resolves once the paused state has been persisted
 	 *
 	 * @example
 	 * ```typescript
-	 * const task = new Task("process-data", { priority: 1 });
-	 * queue.add(task);
+	 * await queue.pause();
 	 * ```
 	 */
-	public add(task: Task): this {
-		this.#taskStack.push(task);
-		
-		console.log(
-			`[${this.id}] ➕ "${task.name}" added to queue (ID: ${task.uid})`
-		);
+	public async pause(): Promise<void> {
+		this.#paused = true;
+		this.#logger.info({}, "Queue paused");
 
-		return this;
+		await this.#savePauseState();
 	}
 
 	/**
-	 * Removes a task from the queue by its ID.
+	 * Resumes processing of all tasks, task types paused with {@link pauseType} stay paused.
 	 *
-	 * @param taskId - Unique identifier of the task to remove
-	 * @returns True if the task was found and removed, false otherwise
-	 *
-	 * @example
-	 * ```typescript
-	 * const removed = queue.remove("task-123");
-	 * if (removed) {
-	 *   console.log("Task removed successfully");
-	 * }
-	 * ```
+	 * @returns Promise that resolves once the paused state has been persisted
 	 */
-	public remove(taskId: string, silent = false): boolean {
-		const index = this.#taskStack.findIndex((task) => task.uid === taskId);
+	public async resume(): Promise<void> {
+		this.#paused = false;
+		this.#logger.info({}, "Queue resumed");
 
-		if (index !== -1) {
-			const task = this.#taskStack.splice(index, 1)[0];
-
-			if(!silent) {
-				console.log(
-					`[${this.id}] 🗑️ ${task.name} removed from queue (ID: ${taskId})`
-				);
-			}
-
-			return true;
-		}
+		this.#requestDispatch();
 
-		return false;
+		await this.#savePauseState();
 	}
 
 	/**
-	 * Cancels a pending task and removes it from the queue.
+	 * Pauses processing of a single task type.
 	 *
-	 * This method only affects tasks that haven't started executing yet.
-	 * Running or completed tasks cannot be cancelled.
-	 *
-	 * @param taskId - Unique identifier of the task to cancel
-	 * @returns True if the task was found, cancelled, and removed, false otherwise
+	 * @param type - The task type to pause
+	 * @returns Promise that resolves once the paused state has been persisted
 	 *
 	 * @example
 	 * ```typescript
-	 * const cancelled = queue.cancel("task-123");
-	 * if (cancelled) {
-	 *   console.log("Task cancelled successfully");
-	 * }
+	 * await queue.pauseType("send-email");
 	 * ```
 	 */
-	public cancel(taskId: string): boolean {
-		// Cancel pending task only
-		const pendingTask = this.getTask(taskId);
-		if (pendingTask) {
-			pendingTask.cancel();
-			this.remove(taskId);
-			return true;
-		}
+	public async pauseType(type: string): Promise<void> {
+		this.#pausedTypes.add(type);
+		this.#logger.info({ type }, `Task type "${type}" paused`);
 
-		return false;
+		await this.#savePauseState();
 	}
 
 	/**
-	 * Retrieves a task from the queue by its ID.
+	 * Resumes processing of a single task type.
 	 *
-	 * @param taskId - Unique identifier of the task to retrieve
-	 * @returns Task instance if found, undefined otherwise
+	 * @param type - The task type to resume
+	 * @returns Promise that resolves once the paused state has been persisted
+	 */
+	public async resumeType(type: string): Promise<void> {
+		this.#pausedTypes.delete(type);
+		this.#logger.info({ type }, `Task type "${type}" resumed`);
+
+		this.#requestDispatch();
+
+		await this.#savePauseState();
+	}
+
+	/**
+	 * Checks whether the queue, or a task type, is paused.
 	 *
-	 * @example
-	 * ```typescript
-	 * const task = queue.getTask("task-123");
-	 * if (task) {
-	 *   console.log(`Found task: ${task.name}`);
-	 * }
-	 * ```
+	 * @param type - The task type to check, omit to check the queue as a whole
+	 * @returns True if tasks (of the type) are not being dispatched
 	 */
-	public getTask(taskId: string): Task | undefined {
-		return this.#taskStack.find((task) => task.uid === taskId);
+	public isPaused(type?: string): boolean {
+		if (this.#paused) return true;
+
+		return typeof type !== "undefined" && this.#pausedTypes.has(type);
 	}
 
-	public getTasks() {
-		return [...this.#taskStack];
+	async #savePauseState() {
+		if (!this.#persistPauseState) return;
+
+		await this.#taskStore.savePauseState({
+			paused: this.#paused,
+			pausedTypes: [...this.#pausedTypes],
+		});
 	}
 
 	/**
-	 * Gets all tasks that are ready to run.
-	 *
-	 * @returns Array of task status objects for pending tasks
+	 * Gets the task store instance for database operations.
 	 *
-	 * @example
-	 * ```typescript
-	 * const pending = queue.pendingTasks;
-	 * console.log(`${pending.length} tasks are ready to run`);
-	 * ```
+	 * @returns #taskStore instance
 	 */
-	public getPendingTasks() {
-		return this.#taskStack.filter(
-			(task) => typeof task.readyToRun === "function" && task.readyToRun()
-		);
+	public get store(): taskStore {
+		return this.#taskStore;
 	}
 
 	/**
-	 * Gets the status of all tasks in the queue.
+	 * Gets the result store, if result storage is enabled.
 	 *
-	 * @returns Array of task status objects
-	 *
-	 * @example
-	 * ```typescript
-	 * const statuses = queue.getTaskStatuses();
-	 * statuses.forEach(status => {
-	 *   console.log(`Task ${status.id}: ${status.status}`);
-	 * });
-	 * ```
+	 * @returns ResultStore instance or null
 	 */
-	public getTaskStatuses(): TaskStatus[] {
-		return this.#taskStack.map((task) => task.getStatus());
+	public get results(): ResultStore | null {
+		return this.#results;
 	}
 
 	/**
-	 * Removes all tasks from the queue.
+	 * Gets the logger of the queue, entries include the queue id.
 	 *
-	 * This method clears the entire task stack, effectively resetting
-	 * the queue to an empty state.
+	 * @returns Logger instance
 	 */
-	public clear(): void {
-		this.#taskStack = [];
-		console.log("🧹 Queue cleared");
+	public get logger(): Logger {
+		return this.#logger;
 	}
-}
+
+	/**
+	 * Gets the registry the queue's metrics are recorded in.
+	 *
+	 * @returns MetricsRegistry instance
+	 */
+	public get metricsRegistry(): MetricsRegistry {
+		return this.#metrics;
+	}
+
+	/**
+	 * Gets the task executor registry instance.
+	 *
+	 * @returns TaskExecutorRegistry instance
+	 */
+	public get executorRegistry(): TaskExecutorRegistry {
+		return this.#taskExecutors;
+	}
+
+	/**
+	 * Gets the rate limiter applied to task types before dispatch.
+	 *
+	 * @returns RateLimiter instance
+	 */
+	public get rateLimiter(): RateLimiter {
+		return this.#rateLimiter;
+	}
+
+	/**
+	 * Gets the maximum number of tasks of a type that may run at once across all workers.
+	 *
+	 * A limit configured on the queue takes precedence over the one declared by the executor.
+	 *
+	 * @param type - The task type
+	 * @returns The limit, or null if the type isn't limited
+	 */
+	public getConcurrencyLimit(type: string): number | null {
+		if (type in this.#concurrency) return this.#concurrency[type];
+
+		return this.#taskExecutors.getExecutor(type)?.concurrency() ?? null;
+	}
+
+	/**
+	 * Gets the number of tasks of a type that have been sent to a worker and haven't reported back yet.
+	 *
+	 * @param type - The task type
+	 * @returns The number of running tasks
+	 */
+	public getRunningCount(type: string): number {
+		let count = 0;
+
+		for (const { task } of this.#inFlight.values()) {
+			if (task.type === type) count++;
+		}
+
+		return count;
+	}
+
+	/**
+	 * Adds a task to the queue.
+	 *
+	 * Tasks with an `idempotencyKey` are deduplicated against the tasks that are queued or
+	 * running, following the task's `dedupePolicy` or the queue's default policy:
+	 * - `reject` throws an error
+	 * - `ignore` keeps the existing task
+	 * - `replace` replaces the existing queued task, the new task takes over its uid
+	 * - `extend-delay` keeps the existing task and pushes its `runAt` back to the new task's
+	 *
+	 * Use {@link findByIdempotencyKey} to get the task that is in the queue, or {@link enqueue}
+	 * to deduplicate against the database as well.
+	 *
+	 * @param task - Task instance to add to the queue
+	 * @returns Queue instance for method chaining
+	 * @throws {Error} When the task is a duplicate and its dedupe policy is `reject`
+	 *
+	 * @example
+	 * ```typescript
+	 * queue.add(new Task({ name: "Process data", type: "process-data", idempotencyKey: "order-123" }));
+	 * ```
+	 */
+	public add(task: Task): this {
+		this.#enqueue(task);
+
+		return this;
+	}
+
+	/**
+	 * Adds a task to the queue like {@link add} and persists it. Tasks with an `idempotencyKey`
+	 * are also deduplicated against the pending and running tasks in the database, including
+	 * the ones of other processes sharing it.
+	 *
+	 * A duplicate that is only found in the database is kept for every policy but `reject`,
+	 * it may be held by another process so it can't be replaced or delayed from here.
+	 *
+	 * @param task - Task instance to add to the queue
+	 * @returns The task that is queued, which is the existing task when it was deduplicated
+	 * @throws {Error} When the task is a duplicate and its dedupe policy is `reject`
+	 *
+	 * @example
+	 * ```typescript
+	 * const task = await queue.enqueue(new Task({ name: "Process data", type: "process-data", idempotencyKey: "order-123" }));
+	 * await task.promise;
+	 * ```
+	 */
+	public async enqueue(task: Task): Promise<Task> {
+		const key = task.idempotencyKey;
+
+		if (key && !this.findByIdempotencyKey(key)) {
+			const [stored] = (await this.#taskStore.findByIdempotencyKeys([key])).filter(
+				({ uid }) => uid !== task.uid
+			);
+
+			if (stored) {
+				if ((task.dedupePolicy || this.#dedupePolicy) === "reject") {
+					throw this.#duplicateError(task, stored);
+				}
+
+				this.#logger.debug(taskFields(stored), `"${task.name}" deduplicated, already in the database`);
+
+				return stored;
+			}
+		}
+
+		const queued = this.#enqueue(task);
+
+		// Running tasks are saved once they report back
+		if (this.#taskStack.includes(queued)) {
+			await this.#taskStore.saveTask({ task: queued, error: null, result: null });
+		}
+
+		return queued;
+	}
+
+	// Adds a task to the stack, returns the existing task when it was deduplicated
+	#enqueue(task: Task, silent = false): Task {
+		const existing = task.idempotencyKey
+			? this.findByIdempotencyKey(task.idempotencyKey)
+			: undefined;
+
+		if (existing) return this.#deduplicate(existing, task);
+
+		task.enqueuedAt ??= new Date();
+		task.sequence = ++this.#sequence;
+
+		this.#taskStack.push(task);
+
+		if (!silent) {
+			this.#logger.debug(taskFields(task), `"${task.name}" added to queue`);
+		}
+
+		this.emit("added", task.getStatus());
+		this.#requestDispatch();
+
+		return task;
+	}
+
+	/**
+	 * Adds many tasks to the queue at once.
+	 *
+	 * Every task is validated against its executor's `validationSchema()` first, tasks without
+	 * an executor or that fail validation are rejected. With `persist` the accepted tasks are
+	 * inserted into the database in a single `createMany` call before they are queued, if that
+	 * insert fails none of them are queued. Tasks with an idempotency key are deduplicated like
+	 * in {@link enqueue}, duplicates are not inserted.
+	 *
+	 * @param tasks - Task instances to add to the queue
+	 * @param options - Whether to persist the tasks
+	 * @returns The outcome for every task, in the same order
+	 *
+	 * @example
+	 * ```typescript
+	 * const results = await queue.addBulk(rows.map((row) => new Task({ name: "Import row", type: "import-row", data: row })), { persist: true });
+	 * const rejected = results.filter(({ accepted }) => !accepted);
+	 * ```
+	 */
+	public async addBulk(tasks: Task[], options: BulkAddOptions = {}): Promise<BulkAddResult[]> {
+		const results: BulkAddResult[] = [];
+		const keys: Set<string> = new Set();
+		const inserts: Task[] = [];
+
+		// Pending and running tasks with the same keys that are only held in the database
+		const uids = new Set(tasks.map(({ uid }) => uid));
+		const stored: Map<string, Task> = new Map();
+		const storedKeys = tasks.flatMap(({ idempotencyKey: key }) =>
+			key && !this.findByIdempotencyKey(key) ? [key] : []
+		);
+
+		for (const task of await this.#taskStore.findByIdempotencyKeys(storedKeys)) {
+			if (!uids.has(task.uid)) stored.set(task.idempotencyKey!, task);
+		}
+
+		for (const task of tasks) {
+			const executor = this.#taskExecutors.getExecutor(task.type);
+
+			if (!executor) {
+				results.push({ uid: task.uid, accepted: false, reason: "No executor found" });
+				continue;
+			}
+
+			const { passed, reason } = task.validate(executor.validationSchema());
+
+			if (!passed) {
+				results.push({ uid: task.uid, accepted: false, reason });
+				continue;
+			}
+
+			const key = task.idempotencyKey;
+			const existing = key ? stored.get(key) : undefined;
+			const duplicate = !!key && (keys.has(key) || !!existing || !!this.findByIdempotencyKey(key));
+
+			if (duplicate && (task.dedupePolicy || this.#dedupePolicy) === "reject") {
+				results.push({ uid: task.uid, accepted: false, reason: `Duplicate idempotency key "${key}"` });
+				continue;
+			}
+
+			// Duplicates only found in the database are kept, see enqueue()
+			if (existing) {
+				results.push({ uid: task.uid, accepted: true, task: existing, deduplicated: true });
+				continue;
+			}
+
+			if (key) keys.add(key);
+
+			if (!duplicate) {
+				task.enqueuedAt ??= new Date();
+				inserts.push(task);
+			}
+
+			results.push({ uid: task.uid, accepted: true, task });
+		}
+
+		if (options.persist && inserts.length > 0) {
+			try {
+				await this.#taskStore.saveTasks(inserts);
+			} catch (err) {
+				const reason = err instanceof Error ? err.message : String(err);
+
+				this.#logger.error({ err, count: inserts.length }, `Bulk insert of ${inserts.length} task(s) failed`);
+
+				return results.map((result) =>
+					result.accepted ? { uid: result.uid, accepted: false, reason } : result
+				);
+			}
+		}
+
+		for (const result of results) {
+			if (!result.task || result.deduplicated) continue;
+
+			const queued = this.#enqueue(result.task, true);
+
+			if (queued !== result.task) {
+				result.task = queued;
+				result.deduplicated = true;
+			}
+		}
+
+		const accepted = results.filter((result) => result.accepted).length;
+
+		this.#logger.info(
+			{ accepted, count: tasks.length },
+			`${accepted} of ${tasks.length} task(s) added to queue`
+		);
+
+		return results;
+	}
+
+	/**
+	 * Finds a queued or running task by its idempotency key.
+	 *
+	 * @param key - The idempotency key to look for
+	 * @returns Task instance if found, undefined otherwise
+	 */
+	public findByIdempotencyKey(key: string): Task | undefined {
+		const queued = this.#taskStack.find((task) => task.idempotencyKey === key);
+		if (queued) return queued;
+
+		for (const { task } of this.#inFlight.values()) {
+			if (task.idempotencyKey === key) return task;
+		}
+
+		return undefined;
+	}
+
+	#duplicateError(task: Task, existing: Task): Error {
+		return new Error(
+			`[ERROR] A task with idempotency key "${task.idempotencyKey}" already exists (ID: ${existing.uid})`
+		);
+	}
+
+	#deduplicate(existing: Task, task: Task): Task {
+		const policy = task.dedupePolicy || this.#dedupePolicy;
+		const index = this.#taskStack.indexOf(existing);
+
+		if (policy === "reject") throw this.#duplicateError(task, existing);
+
+		// Running tasks can't be changed anymore, keep them as they are
+		if (index !== -1 && policy === "replace") {
+			// The replacement keeps the place in line of the task it replaces
+			task.uid = existing.uid;
+			task.enqueuedAt = existing.enqueuedAt;
+			task.sequence = existing.sequence;
+			existing.replaceWith(task);
+
+			this.#taskStack[index] = task;
+
+			this.#logger.debug(taskFields(task), `"${task.name}" replaced a duplicate in the queue`);
+
+			this.emit("added", task.getStatus());
+			this.#requestDispatch();
+
+			return task;
+		}
+
+		if (index !== -1 && policy === "extend-delay") {
+			const runAt = task.runAt ?? new Date();
+
+			if (!existing.runAt || existing.runAt < runAt) existing.runAt = runAt;
+		}
+
+		this.#logger.debug(taskFields(existing), `"${task.name}" deduplicated, already in queue`);
+
+		return existing;
+	}
+
+	/**
+	 * Removes a task from the queue by its ID.
+	 *
+	 * @param taskId - Unique identifier of the task to remove
+	 * @returns True if the task was found and removed, false otherwise
+	 *
+	 * @example
+	 * ```typescript
+	 * const removed = queue.remove("task-123");
+	 * if (removed) {
+	 *   console.log("Task removed successfully");
+	 * }
+	 * ```
+	 */
+	public remove(taskId: string, silent = false): boolean {
+		const index = this.#taskStack.findIndex((task) => task.uid === taskId);
+
+		if (index !== -1) {
+			const task = this.#taskStack.splice(index, 1)[0];
+
+			if(!silent) {
+				this.#logger.debug(taskFields(task), `"${task.name}" removed from queue`);
+			}
+
+			return true;
+		}
+
+		return false;
+	}
+
+	/**
+	 * Changes the priority, schedule, data or metadata of a pending task, in the queue
+	 * and in the database. Tasks that are only found in the database are updated there.
+	 *
+	 * @param taskId - Unique identifier of the task
+	 * @param patch - The fields to change
+	 * @returns The updated task, or undefined if no pending task was found
+	 *
+	 * @example
+	 * ```typescript
+	 * // Push a task back by an hour and give it a higher priority
+	 * await queue.update("task-123", { priority: 10, runAt: new Date(Date.now() + 60 * 60 * 1000) });
+	 * ```
+	 */
+	public async update(taskId: string, patch: TaskUpdate): Promise<Task | undefined> {
+		if (this.#inFlight.has(taskId)) return undefined;
+
+		const queued = this.#taskStack.find((task) => task.uid === taskId);
+		const task = queued ?? (await this.#taskStore.findTask(taskId));
+
+		if (!task || task.status !== "pending") return undefined;
+
+		if (patch.priority !== undefined) task.priority = patch.priority;
+		if (patch.data !== undefined) task.data = patch.data;
+		if (patch.metadata !== undefined) task.metadata = patch.metadata;
+
+		if (patch.runAt !== undefined) {
+			task.runAt = patch.runAt ?? undefined;
+
+			// The time to live counts from when the task is due
+			if (task.ttlMs) {
+				task.expiresAt = new Date((task.runAt?.getTime() ?? Date.now()) + task.ttlMs);
+			}
+		}
+
+		// Dispatching the task before it is saved would let the pending row overwrite its progress
+		this.#updating.set(taskId, (this.#updating.get(taskId) ?? 0) + 1);
+
+		try {
+			await this.#taskStore.saveTask({ task, error: null, result: null });
+		} finally {
+			const updating = this.#updating.get(taskId)! - 1;
+
+			if (updating > 0) this.#updating.set(taskId, updating);
+			else this.#updating.delete(taskId);
+		}
+
+		this.#logger.info(taskFields(task), `"${task.name}" updated`);
+
+		if (queued) this.#requestDispatch();
+
+		return task;
+	}
+
+	/**
+	 * Makes a delayed or scheduled pending task due right away, e.g. a task waiting for its
+	 * `runAt` or for the backoff before its next attempt.
+	 *
+	 * @param taskId - Unique identifier of the task
+	 * @returns The promoted task, or undefined if no pending task was found
+	 *
+	 * @example
+	 * ```typescript
+	 * await queue.promote("task-123");
+	 * ```
+	 */
+	public async promote(taskId: string): Promise<Task | undefined> {
+		return this.update(taskId, { runAt: null });
+	}
+
+	/**
+	 * Moves a failed, timed out or dead task back into the queue with a clean retry count.
+	 * Failed tasks that weren't dead-lettered are looked up in the database.
+	 *
+	 * @param taskId - Unique identifier of the task
+	 * @returns The requeued task, or undefined if no failed task was found
+	 *
+	 * @example
+	 * ```typescript
+	 * await queue.retry("task-123");
+	 * ```
+	 */
+	public async retry(taskId: string): Promise<Task | undefined> {
+		if (this.getTask(taskId)) return undefined;
+
+		let task = await this.#deadLetters.requeue(taskId);
+
+		if (!task) {
+			const failed = await this.#taskStore.findTask(taskId);
+
+			if (!failed || failed.status !== "failed") return undefined;
+
+			failed.reset();
+
+			task = await this.enqueue(failed);
+		}
+
+		// Tasks added from now on wait for the new attempt instead of the previous outcome
+		this.#outcomes.delete(taskId);
+		this.#results?.forget(taskId);
+
+		this.#logger.info(taskFields(task), `"${task.name}" manually retried`);
+
+		return task;
+	}
+
+	/**
+	 * Cancels a task.
+	 *
+	 * Pending tasks are removed from the queue right away. For running tasks the worker
+	 * aborts the task's `signal` and reports the task back as cancelled once the executor
+	 * stopped. Executors that don't stop within the `cancelGracePeriodMs` get their worker
+	 * recycled, other tasks running in that worker are put back into the queue.
+	 * Completed tasks cannot be cancelled.
+	 *
+	 * @param taskId - Unique identifier of the task to cancel
+	 * @returns True if the task was cancelled or cancelling it was requested, false otherwise
+	 *
+	 * @example
+	 * ```typescript
+	 * const cancelled = queue.cancel("task-123");
+	 * if (cancelled) {
+	 *   console.log("Task cancelled successfully");
+	 * }
+	 * ```
+	 */
+	public cancel(taskId: string): boolean {
+		const pendingTask = this.#taskStack.find((task) => task.uid === taskId);
+		if (pendingTask) {
+			pendingTask.cancel();
+			this.remove(taskId);
+			this.#saveInBackground({ task: pendingTask, error: "Task cancelled", result: null });
+			this.emit("cancelled", pendingTask.getStatus());
+			this.recordOutcome(taskId, { status: "cancelled" }, pendingTask);
+			return true;
+		}
+
+		const inFlight = this.#inFlight.get(taskId);
+		if (inFlight) {
+			this.#cancelRunning(inFlight);
+			return true;
+		}
+
+		return false;
+	}
+
+	#cancelRunning(inFlight: InFlightTask) {
+		const { task, workerId } = inFlight;
+
+		if (inFlight.cancelRequestedAt) return;
+		inFlight.cancelRequestedAt = new Date();
+
+		this.workers.get(workerId)?.send({ event: "cancelTask", uid: task.uid });
+
+		this.#logger.info({ ...taskFields(task), workerId }, `Cancelling running task "${task.name}"`);
+
+		const timer = setTimeout(() => {
+			// The worker reported the task back in time
+			if (this.#inFlight.get(task.uid) !== inFlight) return;
+
+			this.#logger.warn(
+				{ ...taskFields(task), workerId },
+				`"${task.name}" didn't stop within ${this.#cancelGracePeriodMs}ms`
+			);
+
+			this.#recycleWorker(workerId);
+		}, this.#cancelGracePeriodMs);
+
+		timer.unref();
+	}
+
+	// Replaces a worker that doesn't respond anymore. Its cancelled tasks are settled as cancelled,
+	// the other tasks it was running go back into the queue without counting an attempt. Their work
+	// may have been partly done, so the interruption is recorded in their error history.
+	#recycleWorker(workerId: string) {
+		this.workers.recycle(workerId);
+
+		for (const inFlight of this.getRunningTasks(workerId)) {
+			const { task } = inFlight;
+
+			this.#inFlight.delete(task.uid);
+			this.#clearTimeoutTimer(task.uid);
+
+			if (inFlight.cancelRequestedAt) {
+				this.#settleCancelled(task);
+				continue;
+			}
+
+			const error = new Error(`Task ${task.uid} was interrupted, its worker ${workerId} was recycled`);
+
+			task.errorHistory.push(error);
+			task.status = "pending";
+			task.startedAt = undefined;
+			task.progress = 0;
+
+			this.#taskStack.push(task);
+
+			this.#logger.warn({ ...taskFields(task), workerId }, `"${task.name}" requeued after its worker was recycled`);
+			this.#metrics.inc("anqueue_tasks_requeued_total", { type: task.type });
+			this.#saveInBackground({ task, error: error.message, result: null });
+		}
+
+		this.#requestDispatch();
+	}
+
+	// Recycles the worker of a task that didn't stop within the grace period after its hard timeout,
+	// the timer is cleared when the task settles in time
+	#enforceTimeout(inFlight: InFlightTask) {
+		const { task, workerId } = inFlight;
+
+		this.#clearTimeoutTimer(task.uid);
+
+		const timer = setTimeout(() => {
+			this.#timeoutTimers.delete(task.uid);
+
+			// The worker reported the task back in time
+			if (this.#inFlight.get(task.uid) !== inFlight) return;
+
+			this.#logger.warn(
+				{ ...taskFields(task), workerId },
+				`"${task.name}" didn't stop within ${this.#timeoutGracePeriodMs}ms after timing out`
+			);
+
+			this.#inFlight.delete(task.uid);
+
+			const error = new Error(`Task ${task.uid} timed out after ${task.timeout}ms`);
+			const executor = this.#taskExecutors.getExecutor(task.type);
+			const retry =
+				!!executor &&
+				task.canRetry(error, executor.retrySchema(), executor.nonRetryable()) &&
+				this.retryLater(task, error);
+
+			if (retry) {
+				task.errorHistory.push(error);
+			} else {
+				task.timeOut(error);
+				this.emit("failed", task.getStatus(), error.message);
+				this.recordOutcome(task.uid, { status: "failed" }, task);
+				this.#deadLetters.add(task, error.message);
+			}
+
+			this.#saveInBackground({ task, error: error.message, result: null });
+			this.#recycleWorker(workerId);
+		}, task.delay + task.timeout + this.#timeoutGracePeriodMs);
+
+		timer.unref();
+		this.#timeoutTimers.set(task.uid, timer);
+	}
+
+	#clearTimeoutTimer(uid: string) {
+		clearTimeout(this.#timeoutTimers.get(uid));
+		this.#timeoutTimers.delete(uid);
+	}
+
+	// Settles a running task whose worker went away while it was being cancelled
+	#settleCancelled(task: Task) {
+		task.cancel();
+		this.#saveInBackground({ task, error: "Task cancelled", result: null });
+		this.emit("cancelled", task.getStatus());
+		this.recordOutcome(task.uid, { status: "cancelled" }, task);
+	}
+
+	/**
+	 * Recovers the tasks a worker was running when its process exited unexpectedly.
+	 *
+	 * Depending on the executor's `crashPolicy()` a task is retried, counting an attempt,
+	 * or failed with a "Worker crashed" error. Tasks without retries left fail as well.
+	 *
+	 * @internal Used by workers when their process exits
+	 * @param workerId - Id of the worker that exited
+	 * @param reason - How the process exited, e.g. its exit code or signal
+	 */
+	public handleWorkerLost(workerId: string, reason: string): void {
+		for (const inFlight of this.getRunningTasks(workerId)) {
+			const { task } = inFlight;
+
+			this.#inFlight.delete(task.uid);
+
+			if (inFlight.cancelRequestedAt) {
+				this.#settleCancelled(task);
+				continue;
+			}
+
+			const error = new Error(`Worker crashed (${reason})`);
+			const policy = this.#taskExecutors.getExecutor(task.type)?.crashPolicy() ?? "retry";
+
+			this.#logger.warn(
+				{ ...taskFields(task), workerId, reason },
+				`"${task.name}" was running in ${workerId} when it crashed`
+			);
+
+			if (policy === "retry" && this.retryLater(task, error)) {
+				task.errorHistory.push(error);
+				this.#saveInBackground({ task, error: error.message, result: null });
+				continue;
+			}
+
+			task.fail(error);
+			this.failTask(task, error.message);
+		}
+
+		this.#requestDispatch();
+	}
+
+	/**
+	 * Retrieves a task from the queue by its ID, including tasks that are running in a worker.
+	 *
+	 * @param taskId - Unique identifier of the task to retrieve
+	 * @returns Task instance if found, undefined otherwise
+	 *
+	 * @example
+	 * ```typescript
+	 * const task = queue.getTask("task-123");
+	 * if (task) {
+	 *   console.log(`Found task: ${task.name}`);
+	 * }
+	 * ```
+	 */
+	public getTask(taskId: string): Task | undefined {
+		return (
+			this.#taskStack.find((task) => task.uid === taskId) ??
+			this.#inFlight.get(taskId)?.task
+		);
+	}
+
+	/**
+	 * Gets all tasks in the queue, including tasks that are running in a worker.
+	 *
+	 * @returns Array of queued tasks followed by the running tasks
+	 */
+	public getTasks(): Task[] {
+		return [...this.#taskStack, ...this.getRunningTasks().map(({ task }) => task)];
+	}
+
+	/**
+	 * Gets the tasks that have been sent to a worker and haven't reported back yet.
+	 *
+	 * @param workerId - Only return the tasks sent to this worker
+	 * @returns The running tasks with the worker they run in and when they were dispatched
+	 *
+	 * @example
+	 * ```typescript
+	 * for (const { task, workerId, dispatchedAt } of queue.getRunningTasks()) {
+	 *   console.log(`${task.name} running in ${workerId} since ${task.startedAt ?? dispatchedAt}`);
+	 * }
+	 * ```
+	 */
+	public getRunningTasks(workerId?: string): InFlightTask[] {
+		const running = [...this.#inFlight.values()];
+
+		return workerId ? running.filter((inFlight) => inFlight.workerId === workerId) : running;
+	}
+
+	/**
+	 * Gets all tasks that are ready to run.
+	 *
+	 * @returns Array of task status objects for pending tasks
+	 *
+	 * @example
+	 * ```typescript
+	 * const pending = queue.pendingTasks;
+	 * console.log(`${pending.length} tasks are ready to run`);
+	 * ```
+	 */
+	public getPendingTasks() {
+		// Copy the stack, resolving dependencies may remove tasks from it
+		return [...this.#taskStack].filter(
+			(task) =>
+				!this.isPaused(task.type) &&
+				!this.#updating.has(task.uid) &&
+				typeof task.readyToRun === "function" &&
+				task.readyToRun() &&
+				this.#dependenciesMet(task)
+		);
+	}
+
+	/**
+	 * Gets the status of all tasks in the queue, including tasks that are running in a worker.
+	 *
+	 * The statuses include the `effectivePriority` the queued tasks are scheduled with,
+	 * and the `workerId` of the running tasks.
+	 *
+	 * @returns Array of task status objects
+	 *
+	 * @example
+	 * ```typescript
+	 * const statuses = queue.getTaskStatuses();
+	 * statuses.forEach(status => {
+	 *   console.log(`Task ${status.id}: ${status.status}`);
+	 * });
+	 * ```
+	 */
+	public getTaskStatuses(): TaskStatus[] {
+		const now = Date.now();
+
+		return [
+			...this.#taskStack.map((task) => ({
+				...task.getStatus(),
+				effectivePriority: this.getEffectivePriority(task, now),
+			})),
+			...this.getRunningTasks().map(({ task, workerId }) => ({
+				...task.getStatus(),
+				workerId,
+			})),
+		];
+	}
+
+	/**
+	 * Takes a snapshot of the queue's metrics: queue depth, dispatch outcomes, finished tasks,
+	 * task durations, retries and the load, uptime and restarts of the workers.
+	 *
+	 * @returns The metrics, serialize them with {@link toPrometheusText} for a Prometheus scraper
+	 *
+	 * @example
+	 * ```typescript
+	 * http.createServer((_req, res) => {
+	 *   res.setHeader("Content-Type", "text/plain; version=0.0.4");
+	 *   res.end(toPrometheusText(queue.metrics()));
+	 * }).listen(9464);
+	 * ```
+	 */
+	public metrics(): Metric[] {
+		const metrics = this.#metrics;
+
+		metrics.reset("anqueue_queue_depth");
+		metrics.reset("anqueue_tasks_running");
+		metrics.reset("anqueue_worker_task_load");
+		metrics.reset("anqueue_worker_max_load");
+		metrics.reset("anqueue_worker_uptime_seconds");
+
+		for (const task of this.#taskStack) {
+			metrics.inc("anqueue_queue_depth", { type: task.type, priority: String(task.priority) });
+		}
+
+		for (const { task } of this.#inFlight.values()) {
+			metrics.inc("anqueue_tasks_running", { type: task.type });
+		}
+
+		this.workers.forEach((worker, workerId) => {
+			if (!worker.cachedInfo) return;
+
+			const labels = { worker: workerId };
+
+			metrics.set("anqueue_worker_task_load", labels, worker.cachedInfo.taskLoad);
+			metrics.set("anqueue_worker_max_load", labels, worker.cachedInfo.maxLoad);
+			metrics.set("anqueue_worker_uptime_seconds", labels, worker.cachedInfo.uptime);
+		});
+
+		return metrics.snapshot();
+	}
+
+	#defineMetrics() {
+		const metrics = this.#metrics;
+
+		metrics.define("gauge", "anqueue_queue_depth", "Tasks waiting in the queue by type and priority");
+		metrics.define("gauge", "anqueue_tasks_running", "Tasks running in a worker by type");
+		metrics.define("counter", "anqueue_dispatch_total", "Tasks considered for dispatch by outcome");
+		metrics.define("counter", "anqueue_tasks_finished_total", "Finished tasks by type and final status");
+		metrics.define("histogram", "anqueue_task_duration_seconds", "Time from start to finish of tasks by type and final status");
+		metrics.define("counter", "anqueue_task_retries_total", "Retries scheduled by task type");
+		metrics.define("gauge", "anqueue_worker_task_load", "Tasks running in a worker process");
+		metrics.define("gauge", "anqueue_worker_max_load", "Maximum concurrent tasks of a worker process");
+		metrics.define("gauge", "anqueue_worker_uptime_seconds", "Uptime of a worker process");
+		metrics.define("counter", "anqueue_worker_restarts_total", "Worker processes restarted after a crash or recycled");
+		metrics.define("counter", "anqueue_tasks_requeued_total", "Running tasks requeued because their worker was recycled");
+	}
+
+	#recordFinished(task: Task) {
+		const labels = { type: task.type, status: task.status };
+
+		this.#metrics.inc("anqueue_tasks_finished_total", labels);
+
+		if (!task.startedAt) return;
+
+		const finishedAt = task.completedAt ?? task.failedAt ?? new Date();
+		const seconds = (finishedAt.getTime() - new Date(task.startedAt).getTime()) / 1000;
+
+		this.#metrics.observe("anqueue_task_duration_seconds", labels, Math.max(0, seconds));
+	}
+
+	/**
+	 * Marks a task as sent to a worker.
+	 *
+	 * The task is removed from the queue and tracked until the worker reports
+	 * its outcome through {@link settle}.
+	 *
+	 * @internal Used by the dispatch strategies
+	 * @param task - The task that was sent
+	 * @param workerId - Id of the worker the task was sent to
+	 */
+	public trackDispatched(task: Task, workerId: string): void {
+		this.remove(task.uid, true);
+		this.#inFlight.set(task.uid, { task, workerId, dispatchedAt: new Date() });
+
+		this.emit("dispatched", task.getStatus(), workerId);
+	}
+
+	/**
+	 * Marks a task that was sent to a worker as running.
+	 *
+	 * @internal Used by workers when a task starts executing
+	 * @param update - The task as reported by the worker
+	 * @param workerId - Id of the worker executing the task
+	 */
+	public reportStarted(update: Task, workerId: string): void {
+		const inFlight = this.#inFlight.get(update.uid);
+		const task = inFlight ? inFlight.task : Task.fromPlainObject(update);
+
+		if (inFlight) {
+			task.status = "running";
+			task.startedAt = update.startedAt ? new Date(update.startedAt) : new Date();
+
+			if (this.#timeoutMode === "hard") this.#enforceTimeout(inFlight);
+		}
+
+		this.emit("started", task.getStatus(), workerId);
+	}
+
+	/**
+	 * Puts a task back into the queue that a worker turned away because it was under full load,
+	 * without counting an attempt.
+	 *
+	 * @internal Used by workers when they reject a task
+	 * @param uid - Unique identifier of the rejected task
+	 * @param workerId - Id of the worker that rejected the task
+	 * @returns The requeued task, or undefined if it wasn't sent to that worker
+	 */
+	public reportRejected(uid: string, workerId: string): Task | undefined {
+		const inFlight = this.#inFlight.get(uid);
+		if (!inFlight || inFlight.workerId !== workerId) return undefined;
+
+		const { task } = inFlight;
+
+		this.#inFlight.delete(uid);
+		this.#clearTimeoutTimer(uid);
+
+		task.status = "pending";
+		task.startedAt = undefined;
+		task.progress = 0;
+
+		this.#taskStack.push(task);
+
+		this.#logger.debug({ ...taskFields(task), workerId }, `"${task.name}" requeued, the worker was under full load`);
+
+		this.#requestDispatch();
+
+		return task;
+	}
+
+	/**
+	 * Applies the outcome a worker reported for a task to the instance that was
+	 * originally added to this queue, settling its promise and notifying listeners.
+	 *
+	 * Tasks that ultimately failed are moved to the dead-letter queue.
+	 *
+	 * @internal Used by workers when a task reports back
+	 * @param update - The task update received from the worker
+	 * @returns The tracked task, or a task reconstructed from the update if it wasn't tracked
+	 */
+	public settle(update: WorkerTaskStatus): Task {
+		const outcome = Task.fromPlainObject(update.task!);
+		const tracked = this.#inFlight.get(outcome.uid);
+
+		// A task reported back with an error before it finished, e.g. without an executor, failed
+		if (update.error !== null && ["pending", "running"].includes(outcome.status)) {
+			outcome.status = "failed";
+			outcome.failedAt ??= new Date();
+		}
+
+		this.#inFlight.delete(outcome.uid);
+		this.#clearTimeoutTimer(outcome.uid);
+
+		// The worker has capacity for another task
+		this.#requestDispatch();
+
+		if (tracked && update.retry) {
+			tracked.task.errorHistory = [...outcome.errorHistory];
+			tracked.task.retryCount = outcome.retryCount;
+		}
+
+		// Failed attempts that may be retried go back into the queue without settling the task.
+		if (update.retry && this.retryLater(tracked ? tracked.task : outcome, outcome.error)) {
+			return tracked ? tracked.task : outcome;
+		}
+
+		if (tracked) {
+			tracked.task.settle(outcome, update.result, update.error);
+		}
+
+		const task = tracked ? tracked.task : outcome;
+
+		switch (task.status) {
+			case "completed":
+				this.emit("completed", task.getStatus(), update.result);
+				this.recordOutcome(task.uid, { status: "completed", result: update.result }, task);
+				break;
+			case "failed":
+			case "timed_out":
+				this.emit("failed", task.getStatus(), update.error);
+				this.recordOutcome(task.uid, { status: "failed" }, task);
+				this.#deadLetters.add(task, update.error ?? "Task failed");
+				break;
+			case "cancelled":
+				this.emit("cancelled", task.getStatus());
+				this.recordOutcome(task.uid, { status: "cancelled" }, task);
+				break;
+		}
+
+		return task;
+	}
+
+	/**
+	 * Applies a progress update a worker reported for a running task, notifies
+	 * listeners and persists it.
+	 *
+	 * @internal Used by workers when a task reports progress
+	 * @param uid - Unique identifier of the running task
+	 * @param progress - The reported progress
+	 * @returns Promise that resolves once the progress has been persisted
+	 */
+	public async reportProgress(uid: string, progress: TaskProgress): Promise<void> {
+		const inFlight = this.#inFlight.get(uid);
+		if (!inFlight) return;
+
+		const { task } = inFlight;
+
+		task.progress = progress.progress;
+		task.progressMessage = progress.message;
+		task.progressData = progress.data;
+
+		this.emit("progress", task.getStatus(), task.progress);
+
+		await this.#taskStore.saveProgress(task);
+	}
+
+	/**
+	 * Schedules another attempt of a failed task, using the retry policy of the task,
+	 * its executor or the default exponential backoff.
+	 *
+	 * @internal Used by the dispatch strategies and when a worker reports a retryable failure
+	 * @param task - The task that failed
+	 * @param error - The error the attempt failed with
+	 * @returns False if the task has no retries left
+	 */
+	public retryLater(task: Task, error?: Error): boolean {
+		const policy =
+			task.retryPolicy ??
+			this.#taskExecutors.getExecutor(task.type)?.retryPolicy() ??
+			DEFAULT_RETRY_POLICY;
+
+		const attempt = task.retryCount + 1;
+		const delay = getRetryDelay(policy, attempt, error ?? task.error ?? new Error("Unknown error"));
+
+		if (!task.retry(new Date(Date.now() + delay))) return false;
+
+		if (!this.#taskStack.includes(task)) this.#taskStack.push(task);
+
+		this.#metrics.inc("anqueue_task_retries_total", { type: task.type });
+
+		this.#logger.info(
+			{ ...taskFields(task), attempt, delay },
+			`Retrying "${task.name}" in ${delay}ms (attempt ${attempt})`
+		);
+
+		this.emit("retrying", task.getStatus(), attempt, delay);
+
+		return true;
+	}
+
+	/**
+	 * Marks a queued task as failed for good, removes it from the queue and persists it.
+	 *
+	 * @internal Used by the dispatch strategies
+	 * @param task - The task that failed
+	 * @param reason - Why the task failed
+	 * @param deadLetter - Whether to move the task to the dead-letter queue
+	 */
+	public failTask(task: Task, reason: string, deadLetter = true): void {
+		task.status = "failed";
+		task.failedAt = new Date();
+
+		this.remove(task.uid);
+
+		this.emit("failed", task.getStatus(), reason);
+
+		if (deadLetter) this.#deadLetters.add(task, reason);
+
+		this.recordOutcome(task.uid, { status: "failed" }, task);
+
+		this.#saveInBackground({
+			task: task,
+			error: reason,
+			result: null,
+		});
+	}
+
+	// Persists a task from a code path that doesn't wait for it, failures are logged
+	#saveInBackground(status: WorkerTaskStatus) {
+		this.#taskStore.saveTask(status).catch((err) => {
+			this.#logger.error({ ...taskFields(status.task!), err }, `Failed to save "${status.task!.name}"`);
+		});
+	}
+
+	/**
+	 * Marks a task that wasn't dispatched before its deadline as expired, removes it
+	 * from the queue, persists it and calls the executor's `onExpired` hook.
+	 *
+	 * @internal Used by the dispatch loop, the dispatch strategies and the task store
+	 * @param task - The expired task
+	 */
+	public async expireTask(task: Task): Promise<void> {
+		task.expire();
+		this.remove(task.uid, true);
+
+		this.#logger.warn(taskFields(task), `"${task.name}" expired before it could run`);
+
+		this.emit("expired", task.getStatus());
+		this.recordOutcome(task.uid, { status: "expired" }, task);
+
+		await this.#taskStore.saveTask({ task, error: "Task expired", result: null });
+
+		try {
+			await this.#taskExecutors
+				.getExecutor(task.type)
+				?.onExpired(task, this.#taskStore.dbAdaptor);
+		} catch (error) {
+			this.#logger.error({ ...taskFields(task), err: error }, `onExpired hook of "${task.name}" failed`);
+		}
+
+		await this.scheduleNextOccurrence(task);
+	}
+
+	/**
+	 * Records the final outcome of a task and releases, fails or cancels the tasks depending on it.
+	 *
+	 * @internal Used by the task store when resolving dependencies from the database
+	 * @param taskId - Unique identifier of the finished task
+	 * @param outcome - The final status and result of the task
+	 * @param task - The finished task, kept by the result store if enabled
+	 */
+	public recordOutcome(taskId: string, outcome: TaskOutcome, task?: Task): void {
+		this.#outcomes.set(taskId, outcome);
+
+		if (task) {
+			this.#results?.record(task, outcome.result as TaskResult<unknown> | undefined);
+			this.#recordFinished(task);
+		}
+
+		// Forget the oldest outcomes, Map keeps insertion order
+		if (this.#outcomes.size > MAX_TRACKED_OUTCOMES) {
+			this.#outcomes.delete(this.#outcomes.keys().next().value!);
+		}
+
+		if (outcome.status === "completed") return;
+
+		for (const task of [...this.#taskStack]) {
+			if (task.dependsOn.includes(taskId)) this.#dependenciesMet(task);
+		}
+	}
+
+	/**
+	 * Gets the uids of the tasks queued tasks depend on that haven't reported an outcome yet.
+	 *
+	 * @returns Array of task uids
+	 */
+	public getUnresolvedDependencies(): string[] {
+		const uids = new Set<string>();
+
+		for (const task of this.#taskStack) {
+			for (const uid of task.dependsOn) {
+				if (!this.#outcomes.has(uid) && !this.#inFlight.has(uid) && !this.getTask(uid)) {
+					uids.add(uid);
+				}
+			}
+		}
+
+		return [...uids];
+	}
+
+	/**
+	 * Checks whether all tasks a task depends on have completed, passing their results
+	 * along if requested. Applies the task's dependency policy if one of them failed or was cancelled.
+	 */
+	#dependenciesMet(task: Task): boolean {
+		if (task.dependsOn.length === 0) return true;
+
+		const results: Record<string, unknown> = {};
+
+		for (const uid of task.dependsOn) {
+			const outcome = this.#outcomes.get(uid);
+
+			if (!outcome) return false;
+
+			if (outcome.status !== "completed") {
+				const reason = `Dependency ${uid} ${outcome.status}`;
+
+				if (task.dependencyPolicy === "fail") {
+					this.failTask(task, reason, false);
+				} else {
+					task.cancel();
+					this.remove(task.uid);
+					this.#saveInBackground({ task, error: reason, result: null });
+					this.emit("cancelled", task.getStatus());
+					this.recordOutcome(task.uid, { status: "cancelled" }, task);
+				}
+
+				return false;
+			}
+
+			results[uid] = outcome.result;
+		}
+
+		if (task.includeDependencyResults) task.dependencyResults = results;
+
+		return true;
+	}
+
+	/**
+	 * Enqueues the next occurrence of a recurring task and persists it,
+	 * so the schedule survives a restart.
+	 *
+	 * @internal Used by workers when a recurring task reports back
+	 * @param task - The occurrence that just finished
+	 * @returns The next occurrence, or undefined if the task doesn't repeat (anymore)
+	 */
+	public async scheduleNextOccurrence(task: Task): Promise<Task | undefined> {
+		if (!["completed", "failed", "timed_out", "expired", "dead"].includes(task.status)) return;
+
+		const next = task.nextOccurrence();
+		if (!next) return;
+
+		this.add(next);
+		await this.#taskStore.saveTask({ task: next, error: null, result: null });
+
+		return next;
+	}
+
+	/**
+	 * Gets the result or error of a finished task, including tasks that finished in another
+	 * process sharing the database. Requires the `results` option.
+	 *
+	 * @param taskId - Unique identifier of the task
+	 * @returns The result, or undefined if the task hasn't finished or its result is past its retention
+	 * @throws {Error} When result storage is disabled
+	 *
+	 * @example
+	 * ```typescript
+	 * const stored = await queue.getResult("task-123");
+	 * if (stored?.status === "completed") console.log(stored.result);
+	 * ```
+	 */
+	public async getResult(taskId: string): Promise<StoredResult | undefined> {
+		return this.#requireResults().get(taskId);
+	}
+
+	/**
+	 * Waits until a task finished and returns its result or error. Tasks running in another
+	 * process are picked up from the database. Requires the `results` option.
+	 *
+	 * Without `timeoutMs` this waits forever, with a database it keeps polling for as long as
+	 * the task doesn't finish, e.g. for a task that was never added.
+	 *
+	 * @param taskId - Unique identifier of the task
+	 * @param options - How long to wait at most
+	 * @returns The result of the finished task
+	 * @throws {Error} When result storage is disabled or the task didn't finish within `timeoutMs`
+	 *
+	 * @example
+	 * ```typescript
+	 * const { status, result, error } = await queue.waitForResult("task-123", { timeoutMs: 10000 });
+	 * ```
+	 */
+	public async waitForResult(
+		taskId: string,
+		options: WaitForResultOptions = {}
+	): Promise<StoredResult> {
+		return this.#requireResults().wait(taskId, options);
+	}
+
+	#requireResults(): ResultStore {
+		if (!this.#results) {
+			throw new Error(
+				`[ERROR] Result storage is disabled, enable it with the "results" option of the Queue`
+			);
+		}
+
+		return this.#results;
+	}
+
+	/**
+	 * Lists the tasks that ultimately failed, including the ones only found in the database.
+	 *
+	 * @returns Array of dead letters with their error history, oldest first
+	 *
+	 * @example
+	 * ```typescript
+	 * for (const { task, reason, errorHistory } of await queue.listDeadLetters()) {
+	 *   console.log(`${task.name} (${task.uid}): ${reason}`);
+	 * }
+	 * ```
+	 */
+	public async listDeadLetters(): Promise<DeadLetter[]> {
+		return this.#deadLetters.list();
+	}
+
+	/**
+	 * Moves a dead-lettered task back into the queue with a clean retry count.
+	 *
+	 * @param taskId - Unique identifier of the dead task
+	 * @returns The requeued task, or undefined if no dead letter was found
+	 *
+	 * @example
+	 * ```typescript
+	 * await queue.requeueDeadLetter("task-123");
+	 * ```
+	 */
+	public async requeueDeadLetter(taskId: string): Promise<Task | undefined> {
+		return this.#deadLetters.requeue(taskId);
+	}
+
+	/**
+	 * Permanently deletes dead-lettered tasks, from memory and the database.
+	 *
+	 * @param filter - Which dead letters to delete by uid, type or age, omit to delete all of them
+	 * @returns The number of deleted dead letters
+	 *
+	 * @example
+	 * ```typescript
+	 * // Delete dead letters older than a week
+	 * await queue.purgeDeadLetters({ before: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000) });
+	 * ```
+	 */
+	public async purgeDeadLetters(filter?: DeadLetterFilter): Promise<number> {
+		return this.#deadLetters.purge(filter);
+	}
+
+	/**
+	 * Removes all tasks from the queue.
+	 *
+	 * This method clears the entire task stack, effectively resetting
+	 * the queue to an empty state.
+	 */
+	public clear(): void {
+		this.#taskStack = [];
+		this.#logger.info({}, "Queue cleared");
+	}
+}
 
 export {
 	Task,
 	TaskExecutor,
 	getFileParts,
 	hasProperty,
+	toPrometheusText,
 	WorkerManager,
 	AdapterType,
 	PrismaAdapter,
 	MySQLAdapter
 };
 
-export type { WorkerTaskStatus, TaskResult, TaskStatus, TaskValidationRule };
+export type {
+	WorkerTaskStatus,
+	TaskResult,
+	TaskStatus,
+	TaskValidationRule,
+	QueueEvents,
+	QueueEvent,
+	DrainOptions,
+	DrainResult,
+	RateLimit,
+	DispatchStats,
+	DedupePolicy,
+	PauseState,
+	DeadLetter,
+	DeadLetterFilter,
+	RetryPolicy,
+	RetryStrategy,
+	RetryRule,
+	AgingPolicy,
+	RunOptions,
+	TaskProgress,
+	CrashPolicy,
+	TimeoutMode,
+	BulkAddOptions,
+	BulkAddResult,
+	TaskUpdate,
+	StoredResult,
+	ResultStoreOptions,
+	WaitForResultOptions,
+	Metric,
+	MetricLabels,
+	MetricType,
+	Logger,
+	LogFields,
+	LogLevel
+};
@@ -11,8 +11,10 @@ export interface DBAdapterInterface {
 	findFirst(table: string, data: any): Promise<any>;
 	findMany(table: string, data: any): Promise<any>;
 	update(table: string, data: any): Promise<any>;
+	updateMany(table: string, data: any): Promise<any>;
 	delete(table: string, data: any): Promise<any>;
 	create(table: string, data: any): Promise<any>;
+	createMany(table: string, data: any): Promise<any>;
 	upsert(table: string, data: any): Promise<any>;
 }
 
@@ -48,6 +50,13 @@ export class PrismaAdapter<C extends PrismaClient = PrismaClient>
 		return await this.db[table].update(args as any);
 	}
 
+	async updateMany<T extends keyof C>(
+		table: T,
+		args: Parameters<C[T]["updateMany"]>[0]
+	): Promise<ReturnType<C[T]["updateMany"]>> {
+		return await this.db[table].updateMany(args as any);
+	}
+
 	async delete<T extends keyof C>(
 		table: T,
 		args: Parameters<C[T]["delete"]>[0]
@@ -62,6 +71,13 @@ export class PrismaAdapter<C extends PrismaClient = PrismaClient>
 		return await this.db[table].create(args as any);
 	}
 
+	async createMany<T extends keyof C>(
+		table: T,
+		args: Parameters<C[T]["createMany"]>[0]
+	): Promise<ReturnType<C[T]["createMany"]>> {
+		return await this.db[table].createMany(args as any);
+	}
+
 	async upsert<T extends keyof C>(
 		table: T,
 		data: {
@@ -71,34 +87,29 @@ export class PrismaAdapter<C extends PrismaClient = PrismaClient>
 		}
 	): Promise<ReturnType<C[T]["upsert"]>> {
 		const { where, update, create } = data;
-		let r;
 
 		try {
-			const result = await this.db[table].upsert({
+			return await this.db[table].upsert({
 				where,
 				update,
 				create,
 			});
-			r = result;
 		} catch (err) {
-			// If unique constraint error, try update
+			// Another process created the row in the meantime, update it instead
 			if (
-				hasProperty(err as { code: string }, "code", {
+				!hasProperty(err as { code: string }, "code", {
 					type: "string",
-					value: "P202",
+					value: "P2002",
 				})
 			) {
-				try {
-					const result = await this.db[table].update({
-						where,
-						data: update,
-					});
-					r = result;
-				} catch (updateErr) {}
+				throw err;
 			}
-		}
 
-		return r;
+			return await this.db[table].update({
+				where,
+				data: update,
+			});
+		}
 	}
 }
 
@@ -113,7 +124,9 @@ export class MySQLAdapter implements DBAdapterInterface {
 	async findFirst(table: string, data: any): Promise<any> {}
 	async findMany(table: string, data: any): Promise<any> {}
 	async create(table: string, data: any): Promise<any> {}
+	async createMany(table: string, data: any): Promise<any> {}
 	async delete(table: string, data: any): Promise<any> {}
 	async update(table: string, data: any): Promise<any> {}
+	async updateMany(table: string, data: any): Promise<any> {}
 	async upsert(table: string, data: any): Promise<any> {}
 }
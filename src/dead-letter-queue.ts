@@ -0,0 +1,127 @@
+import type { DeadLetter, DeadLetterFilter } from "../types/index.d.ts";
+
+import Queue, { Task } from "../index.js";
+import { taskFields } from "./lib/logger.js";
+
+/**
+ * Holds the tasks that ultimately failed so they can be inspected and replayed.
+ *
+ * Dead-lettered tasks get the `dead` status, timed out tasks keep their `timed_out` status.
+ * Either is persisted in the `tasks` table together with the error history when a database
+ * is configured.
+ *
+ * @example
+ * ```typescript
+ * const deadLetters = await queue.listDeadLetters();
+ * await queue.requeueDeadLetter(deadLetters[0].task.uid);
+ * ```
+ */
+export default class DeadLetterQueue {
+	/** The queue instance this dead-letter queue belongs to */
+	#queue: Queue;
+
+	/** Dead letters keyed by task uid */
+	#entries: Map<string, DeadLetter> = new Map();
+
+	constructor(queue: Queue) {
+		this.#queue = queue;
+	}
+
+	/**
+	 * Moves a failed task to the dead-letter queue.
+	 *
+	 * The task is only marked as dead, persisting it is up to the caller. Timed out tasks
+	 * keep their `timed_out` status so they can still be told apart.
+	 *
+	 * @param task - The task that ultimately failed
+	 * @param reason - Why the task failed
+	 */
+	public add(task: Task, reason: string): DeadLetter {
+		if (task.status !== "timed_out") task.status = "dead";
+
+		const deadLetter: DeadLetter = {
+			task,
+			reason,
+			errorHistory: task.toJSON().errorHistory,
+			deadAt: task.failedAt ?? new Date(),
+		};
+
+		this.#entries.set(task.uid, deadLetter);
+
+		this.#queue.logger.warn(
+			{ ...taskFields(task), reason },
+			`"${task.name}" moved to the dead-letter queue: ${reason}`
+		);
+
+		this.#queue.emit("deadLettered", task.getStatus(), reason);
+
+		return deadLetter;
+	}
+
+	/**
+	 * Lists all dead letters, including the ones only found in the database.
+	 *
+	 * @returns Array of dead letters, oldest first
+	 */
+	public async list(): Promise<DeadLetter[]> {
+		for (const task of await this.#queue.store.findDeadTasks()) {
+			if (this.#entries.has(task.uid)) continue;
+
+			const lastError = task.errorHistory.at(-1);
+
+			this.#entries.set(task.uid, {
+				task,
+				reason: lastError?.message ?? "Unknown",
+				errorHistory: task.toJSON().errorHistory,
+				deadAt: task.failedAt ?? new Date(),
+			});
+		}
+
+		return [...this.#entries.values()].sort(
+			(a, b) => a.deadAt.getTime() - b.deadAt.getTime()
+		);
+	}
+
+	/**
+	 * Moves a dead letter back into the queue with a clean retry count.
+	 *
+	 * @param uid - Unique identifier of the dead task
+	 * @returns The requeued task, or undefined if no dead letter was found
+	 */
+	public async requeue(uid: string): Promise<Task | undefined> {
+		if (!this.#entries.has(uid)) await this.list();
+
+		const deadLetter = this.#entries.get(uid);
+		if (!deadLetter) return undefined;
+
+		this.#entries.delete(uid);
+
+		const { task } = deadLetter;
+		task.reset();
+
+		return this.#queue.enqueue(task);
+	}
+
+	/**
+	 * Permanently deletes dead letters from memory and the database.
+	 *
+	 * @param filter - Which dead letters to delete, omit to delete all of them
+	 * @returns The number of deleted dead letters
+	 */
+	public async purge(filter: DeadLetterFilter = {}): Promise<number> {
+		const deadLetters = (await this.list()).filter(({ task, deadAt }) => {
+			if (filter.uids && !filter.uids.includes(task.uid)) return false;
+			if (filter.type && task.type !== filter.type) return false;
+			if (filter.before && deadAt >= filter.before) return false;
+
+			return true;
+		});
+
+		for (const { task } of deadLetters) {
+			this.#entries.delete(task.uid);
+			await this.#queue.store.deleteTask(task.uid);
+		}
+
+		return deadLetters.length;
+	}
+}
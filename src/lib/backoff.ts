@@ -0,0 +1,44 @@
+import type { RetryPolicy } from "@types";
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+	strategy: "exponential",
+	delay: 1000,
+	maxDelay: 5 * 60 * 1000,
+};
+
+/**
+ * Calculates how long to wait before the next attempt of a failed task.
+ *
+ * @param policy - The retry policy of the task
+ * @param attempt - The attempt that is about to be made, starting at 1 for the first retry
+ * @param error - The error the previous attempt failed with
+ * @returns The delay in milliseconds
+ */
+export function getRetryDelay(policy: RetryPolicy, attempt: number, error: Error): number {
+	if (typeof policy === "function") {
+		return Math.max(0, policy(attempt, error));
+	}
+
+	const { strategy, delay, maxDelay = Infinity } = policy;
+	let result: number;
+
+	switch (strategy) {
+		case "fixed":
+			result = delay;
+			break;
+		case "linear":
+			result = delay * attempt;
+			break;
+		case "exponential":
+			result = delay * Math.pow(2, attempt - 1);
+			break;
+		case "exponential+jitter":
+			// "Full jitter", spreads retries of tasks that failed at the same time
+			result = Math.random() * Math.min(maxDelay, delay * Math.pow(2, attempt - 1));
+			break;
+		default:
+			result = delay;
+	}
+
+	return Math.round(Math.min(result, maxDelay));
+}
@@ -0,0 +1,157 @@
+type CronField = { min: number; max: number };
+
+// minute, hour, day of month, month, day of week
+const FIELDS: CronField[] = [
+	{ min: 0, max: 59 },
+	{ min: 0, max: 23 },
+	{ min: 1, max: 31 },
+	{ min: 1, max: 12 },
+	{ min: 0, max: 7 }, // 0 and 7 both mean sunday
+];
+
+const ALIASES: Record<string, string> = {
+	"@yearly": "0 0 1 1 *",
+	"@annually": "0 0 1 1 *",
+	"@monthly": "0 0 1 * *",
+	"@weekly": "0 0 * * 0",
+	"@daily": "0 0 * * *",
+	"@midnight": "0 0 * * *",
+	"@hourly": "0 * * * *",
+};
+
+// Never look further ahead than this for a matching date
+const MAX_LOOKAHEAD_YEARS = 5;
+
+export interface CronSchedule {
+	minutes: Set<number>;
+	hours: Set<number>;
+	daysOfMonth: Set<number>;
+	months: Set<number>;
+	daysOfWeek: Set<number>;
+	/** Whether day of month and day of week are both restricted, in which case either may match */
+	restrictedDays: boolean;
+}
+
+// Only plain digits are numbers, Number("") would turn empty parts into 0
+function toNumber(value: string | undefined): number {
+	return value !== undefined && /^\d+$/.test(value) ? Number(value) : NaN;
+}
+
+function parseField(value: string, { min, max }: CronField): Set<number> {
+	const result = new Set<number>();
+
+	for (const part of value.split(",")) {
+		const [range, stepValue, ...rest] = part.split("/");
+		const step = stepValue === undefined ? 1 : rest.length > 0 ? NaN : toNumber(stepValue);
+
+		let start = min;
+		let end = max;
+
+		if (range !== "*") {
+			const [from, to, ...more] = range.split("-");
+			start = more.length > 0 ? NaN : toNumber(from);
+			end = to === undefined ? (stepValue === undefined ? start : max) : toNumber(to);
+		}
+
+		if (
+			!Number.isInteger(start) ||
+			!Number.isInteger(end) ||
+			!Number.isInteger(step) ||
+			step < 1 ||
+			start < min ||
+			end > max ||
+			start > end
+		) {
+			throw new Error(`Invalid cron field "${value}"`);
+		}
+
+		for (let i = start; i <= end; i += step) result.add(i);
+	}
+
+	return result;
+}
+
+/**
+ * Parses a standard 5-field cron expression (minute hour day-of-month month day-of-week).
+ *
+ * Supports wildcards, ranges, lists, steps and the common `@daily` style aliases.
+ *
+ * @param expression - The cron expression to parse
+ * @throws {Error} When the expression is invalid
+ */
+export function parseCron(expression: string): CronSchedule {
+	const normalized = ALIASES[expression.trim()] ?? expression.trim();
+	const parts = normalized.split(/\s+/);
+
+	if (parts.length !== 5) {
+		throw new Error(`Invalid cron expression "${expression}", expected 5 fields`);
+	}
+
+	const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, i) =>
+		parseField(part, FIELDS[i])
+	);
+
+	// Both 0 and 7 mean sunday
+	if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+	return {
+		minutes,
+		hours,
+		daysOfMonth,
+		months,
+		daysOfWeek,
+		restrictedDays: parts[2] !== "*" && parts[4] !== "*",
+	};
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+	const dayOfMonth = schedule.daysOfMonth.has(date.getDate());
+	const dayOfWeek = schedule.daysOfWeek.has(date.getDay());
+
+	return schedule.restrictedDays ? dayOfMonth || dayOfWeek : dayOfMonth && dayOfWeek;
+}
+
+/**
+ * Calculates the first date after `from` that matches a cron expression, in local time.
+ *
+ * @param expression - The cron expression
+ * @param from - The date to start searching from, defaults to now
+ * @returns The next matching date, or undefined if none exists within the lookahead window
+ */
+export function nextCronDate(expression: string, from: Date = new Date()): Date | undefined {
+	const schedule = parseCron(expression);
+	const limit = new Date(from);
+	limit.setFullYear(limit.getFullYear() + MAX_LOOKAHEAD_YEARS);
+
+	const date = new Date(from);
+	date.setSeconds(0, 0);
+	date.setMinutes(date.getMinutes() + 1);
+
+	while (date <= limit) {
+		if (!schedule.months.has(date.getMonth() + 1)) {
+			date.setMonth(date.getMonth() + 1, 1);
+			date.setHours(0, 0);
+			continue;
+		}
+
+		if (!matchesDay(schedule, date)) {
+			date.setDate(date.getDate() + 1);
+			date.setHours(0, 0);
+			continue;
+		}
+
+		if (!schedule.hours.has(date.getHours())) {
+			date.setHours(date.getHours() + 1, 0);
+			continue;
+		}
+
+		if (!schedule.minutes.has(date.getMinutes())) {
+			date.setMinutes(date.getMinutes() + 1);
+			continue;
+		}
+
+		return date;
+	}
+
+	return undefined;
+}
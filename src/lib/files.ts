@@ -1,16 +1,19 @@
 import fs from "fs";
 import path from "path";
 
-export async function ensureDir(directory: string) {
+import type { Logger } from "@types";
+import { createLogger } from "./logger.js";
+
+export async function ensureDir(directory: string, logger: Logger = createLogger()) {
 	try {
 		return await fs.promises.mkdir(directory, { recursive: true });
 	} catch (err) {
-		console.error(`Failed to create directory ${directory}:`, err);
+		logger.error({ err, directory }, `Failed to create directory ${directory}`);
 		return;
 	}
 }
 
-export async function clearDir(directory: string) {
+export async function clearDir(directory: string, logger: Logger = createLogger()) {
 	try {
 		const files = await fs.promises.readdir(directory);
 		for (const file of files) {
@@ -20,7 +23,7 @@ export async function clearDir(directory: string) {
 			}
 		}
 	} catch (err) {
-		console.error("Error clearing avatar directory:", err);
+		logger.error({ err, directory }, `Failed to clear directory ${directory}`);
 	}
 }
 
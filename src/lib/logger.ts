@@ -0,0 +1,103 @@
+import type { Logger, LogFields, LogLevel } from "@types";
+
+export const LOG_LEVELS: Record<LogLevel, number> = {
+	debug: 20,
+	info: 30,
+	warn: 40,
+	error: 50,
+};
+
+/** A logger that drops everything */
+export const silentLogger: Logger = mapLevels(() => () => {});
+
+// Builds a logger from a function returning the method for every level
+function mapLevels(method: (level: LogLevel) => (fields: LogFields, message: string) => void): Logger {
+	return {
+		debug: method("debug"),
+		info: method("info"),
+		warn: method("warn"),
+		error: method("error"),
+	};
+}
+
+/**
+ * Converts errors in the fields to plain objects, they don't survive JSON serialization.
+ *
+ * @param fields - The fields of a log entry
+ * @returns The fields with errors replaced by their name, message and stack
+ */
+export function toSerializable(fields: LogFields): LogFields {
+	const result: LogFields = {};
+
+	for (const [key, value] of Object.entries(fields)) {
+		result[key] =
+			value instanceof Error
+				? { name: value.name, message: value.message, stack: value.stack }
+				: value;
+	}
+
+	return result;
+}
+
+/**
+ * Creates the default logger, writing one JSON object per line. Warnings and errors
+ * go to stderr, everything else to stdout.
+ */
+export function createJsonLogger(): Logger {
+	return mapLevels((level) => (fields, message) => {
+		const line = JSON.stringify({
+			level,
+			time: new Date().toISOString(),
+			...toSerializable(fields),
+			msg: message,
+		});
+
+		(LOG_LEVELS[level] >= LOG_LEVELS.warn ? process.stderr : process.stdout).write(`${line}\n`);
+	});
+}
+
+// Winston loggers take the message first and the fields as metadata
+function isWinston(logger: Logger): boolean {
+	return "transports" in logger && "format" in logger;
+}
+
+/**
+ * Wraps the logger configured on a queue, dropping the logs below the minimum level.
+ *
+ * @param logger - A pino, bunyan or winston compatible logger, "silent" or undefined for the JSON logger
+ * @param level - The minimum level of the logs passed on
+ */
+export function createLogger(logger: Logger | "silent" = createJsonLogger(), level: LogLevel = "info"): Logger {
+	if (logger === "silent") return silentLogger;
+
+	const winston = isWinston(logger);
+
+	return mapLevels((method) => (fields, message) => {
+		if (LOG_LEVELS[method] < LOG_LEVELS[level]) return;
+
+		if (winston) {
+			(logger[method] as unknown as (message: string, meta: LogFields) => void).call(logger, message, fields);
+		} else {
+			logger[method](fields, message);
+		}
+	});
+}
+
+/**
+ * Gets the fields identifying a task in log entries.
+ *
+ * @param task - The task the entry is about
+ */
+export function taskFields(task: { uid: string; type: string }): LogFields {
+	return { taskUid: task.uid, type: task.type };
+}
+
+/**
+ * Creates a logger that adds fields to every log entry, e.g. the id of a queue or worker.
+ *
+ * @param logger - The logger to pass the entries on to
+ * @param fields - The fields to add, fields of the entry take precedence
+ */
+export function withFields(logger: Logger, fields: LogFields): Logger {
+	return mapLevels((level) => (own, message) => logger[level]({ ...fields, ...own }, message));
+}
@@ -0,0 +1,64 @@
+import type { Metric, MetricLabels } from "@types";
+
+function formatValue(value: number): string {
+	if (Number.isNaN(value)) return "NaN";
+	if (value === Infinity) return "+Inf";
+	if (value === -Infinity) return "-Inf";
+
+	return String(value);
+}
+
+function formatLabels(labels: MetricLabels): string {
+	const pairs = Object.entries(labels).map(
+		([name, value]) =>
+			`${name}="${value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"')}"`
+	);
+
+	return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+/**
+ * Serializes metrics in the Prometheus text exposition format (version 0.0.4),
+ * served with the content type `text/plain; version=0.0.4`.
+ *
+ * @param metrics - The metrics to serialize, e.g. from `queue.metrics()`
+ * @returns The exposition text, ending with a newline
+ *
+ * @example
+ * ```typescript
+ * http.createServer((_req, res) => {
+ *   res.setHeader("Content-Type", "text/plain; version=0.0.4");
+ *   res.end(toPrometheusText(queue.metrics()));
+ * }).listen(9464);
+ * ```
+ */
+export function toPrometheusText(metrics: Metric[]): string {
+	const lines: string[] = [];
+
+	for (const metric of metrics) {
+		lines.push(`# HELP ${metric.name} ${metric.help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n")}`);
+		lines.push(`# TYPE ${metric.name} ${metric.type}`);
+
+		if (metric.type !== "histogram") {
+			for (const { labels, value } of metric.samples) {
+				lines.push(`${metric.name}${formatLabels(labels)} ${formatValue(value)}`);
+			}
+
+			continue;
+		}
+
+		for (const { labels, counts, sum, count } of metric.samples) {
+			metric.buckets.forEach((bound, index) => {
+				lines.push(
+					`${metric.name}_bucket${formatLabels({ ...labels, le: formatValue(bound) })} ${counts[index]}`
+				);
+			});
+
+			lines.push(`${metric.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`);
+			lines.push(`${metric.name}_sum${formatLabels(labels)} ${formatValue(sum)}`);
+			lines.push(`${metric.name}_count${formatLabels(labels)} ${count}`);
+		}
+	}
+
+	return lines.length > 0 ? `${lines.join("\n")}\n` : "";
+}
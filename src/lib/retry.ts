@@ -0,0 +1,77 @@
+import type { RetryRule } from "@types";
+import type Task from "../task.js";
+
+/** Errors that are retried when an executor doesn't list any retryable errors itself */
+export const DEFAULT_RETRY_RULES: RetryRule[] = ["Network timeout"];
+
+function isErrorClass(rule: unknown): rule is new (...args: any[]) => Error {
+	return typeof rule === "function" && (rule === Error || rule.prototype instanceof Error);
+}
+
+/**
+ * Checks whether an error matches a retry rule.
+ *
+ * - strings match a substring of the error message or the exact error `code`
+ * - regular expressions are tested against the error message
+ * - error classes match instances of that class
+ * - `{ code }` objects match the error `code`, e.g. `ECONNRESET`
+ * - functions are called with the error, task and attempt and match when they return true
+ *
+ * @param rule - The retry rule
+ * @param error - The error the attempt failed with
+ * @param task - The task that failed
+ * @param attempt - The attempt that would be made, starting at 1 for the first retry
+ */
+export function matchesRetryRule(rule: RetryRule, error: Error, task: Task, attempt: number): boolean {
+	const code = (error as Error & { code?: unknown }).code;
+
+	if (typeof rule === "string") {
+		return error.message.includes(rule) || code === rule;
+	}
+
+	if (rule instanceof RegExp) {
+		return rule.test(error.message);
+	}
+
+	if (isErrorClass(rule)) {
+		return error instanceof rule;
+	}
+
+	if (typeof rule === "function") {
+		return rule(error, task, attempt) === true;
+	}
+
+	if (typeof rule === "object" && rule !== null && "code" in rule) {
+		return code === rule.code;
+	}
+
+	return false;
+}
+
+/**
+ * Checks whether a failed attempt is retryable according to the retry and non-retryable rules,
+ * a matching non-retryable rule always wins. Without retry rules the {@link DEFAULT_RETRY_RULES} apply.
+ *
+ * @param error - The error the attempt failed with
+ * @param task - The task that failed
+ * @param retryable - Rules for errors that should be retried
+ * @param nonRetryable - Rules for errors that should never be retried
+ */
+export function isRetryable(
+	error: Error,
+	task: Task,
+	retryable: RetryRule[],
+	nonRetryable: RetryRule[] = []
+): boolean {
+	const attempt = task.retryCount + 1;
+
+	if (nonRetryable.some((rule) => matchesRetryRule(rule, error, task, attempt))) {
+		return false;
+	}
+
+	const rules = retryable.length > 0 ? retryable : DEFAULT_RETRY_RULES;
+
+	return rules.some((rule) =>
+		matchesRetryRule(rule, error, task, attempt)
+	);
+}
@@ -1,4 +1,5 @@
 import { TypeString } from "@types";
+import type { Logger } from "@types";
 import fs from "fs/promises";
 import path from "path";
 import { createHash } from "crypto";
@@ -6,6 +7,7 @@ import { createHash } from "crypto";
 // This module provides build-time type generation utilities
 // For runtime type syncing, use the generate-types script instead
 import { generateQueueTypes } from "../../scripts/generate-types.js";
+import { createLogger } from "./logger.js";
 export { generateClassName } from "../../scripts/generate-types.js";
 
 /**
@@ -130,7 +132,7 @@ async function writeHash(taskDirectory: string, hash: string) {
 	} catch {}
 }
 
-export async function maybeGenerateTypes(taskDir: string) {
+export async function maybeGenerateTypes(taskDir: string, logger: Logger = createLogger()) {
 	if (process.env.ANQUEUE_GENERATE_TYPES === "false") return;
 	if (process.env.WORKER_ID) return; // only in controller/parent
 
@@ -152,12 +154,9 @@ export async function maybeGenerateTypes(taskDir: string) {
 		await writeHash(taskDir, ".anqueue-types.hash");
 	} catch (err) {
 		// Log once; don’t fail startup
-		console.warn(
-			"[anqueue] type generation skipped:",
-			err instanceof Error ? err.message : String(err)
-		);
+		logger.warn({ err }, "Type generation skipped");
 	} finally {
 		const ms = Date.now() - start;
-		if (ms > 100) console.log(`[anqueue] types gen took ${ms}ms`);
+		if (ms > 100) logger.debug({ ms }, `Type generation took ${ms}ms`);
 	}
 }
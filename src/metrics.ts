@@ -0,0 +1,167 @@
+import type {
+	HistogramMetric,
+	Metric,
+	MetricLabels,
+	MetricType,
+	ScalarMetric,
+} from "../types/index.d.ts";
+
+/** Upper bounds of the task duration buckets in seconds */
+export const DEFAULT_DURATION_BUCKETS = [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300];
+
+type Family =
+	| (Omit<ScalarMetric, "samples"> & {
+			samples: Map<string, { labels: MetricLabels; value: number }>;
+	  })
+	| (Omit<HistogramMetric, "samples"> & {
+			samples: Map<string, { labels: MetricLabels; counts: number[]; sum: number; count: number }>;
+	  });
+
+// Identifies a combination of labels independent of the order they were passed in
+function labelKey(labels: MetricLabels): string {
+	return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+/**
+ * Holds counters, gauges and histograms keyed by metric name and labels.
+ *
+ * Metrics have to be defined before they are updated, updates of unknown metrics are ignored.
+ *
+ * @example
+ * ```typescript
+ * const registry = new MetricsRegistry();
+ * registry.define("counter", "jobs_total", "Number of jobs");
+ * registry.inc("jobs_total", { type: "send-email" });
+ *
+ * console.log(toPrometheusText(registry.snapshot()));
+ * ```
+ */
+export default class MetricsRegistry {
+	/** Metric families keyed by name, in the order they were defined */
+	#families: Map<string, Family> = new Map();
+
+	/**
+	 * Defines a metric.
+	 *
+	 * @param type - The type of the metric
+	 * @param name - The metric name, e.g. `anqueue_tasks_finished_total`
+	 * @param help - Description of the metric
+	 * @param buckets - Upper bounds of the buckets of a histogram in ascending order
+	 */
+	public define(
+		type: MetricType,
+		name: string,
+		help: string,
+		buckets: number[] = DEFAULT_DURATION_BUCKETS
+	): void {
+		if (this.#families.has(name)) return;
+
+		this.#families.set(
+			name,
+			type === "histogram"
+				? { name, help, type, buckets: [...buckets].sort((a, b) => a - b), samples: new Map() }
+				: { name, help, type, samples: new Map() }
+		);
+	}
+
+	/**
+	 * Increases a counter or gauge.
+	 *
+	 * @param name - The metric name
+	 * @param labels - The labels of the sample
+	 * @param value - The amount to add, defaults to 1
+	 */
+	public inc(name: string, labels: MetricLabels = {}, value = 1): void {
+		const family = this.#families.get(name);
+		if (!family || family.type === "histogram") return;
+
+		const key = labelKey(labels);
+		const sample = family.samples.get(key);
+
+		if (sample) sample.value += value;
+		else family.samples.set(key, { labels: { ...labels }, value });
+	}
+
+	/**
+	 * Sets the value of a gauge.
+	 *
+	 * @param name - The metric name
+	 * @param labels - The labels of the sample
+	 * @param value - The new value
+	 */
+	public set(name: string, labels: MetricLabels, value: number): void {
+		const family = this.#families.get(name);
+		if (!family || family.type !== "gauge") return;
+
+		family.samples.set(labelKey(labels), { labels: { ...labels }, value });
+	}
+
+	/**
+	 * Records an observation in a histogram.
+	 *
+	 * @param name - The metric name
+	 * @param labels - The labels of the sample
+	 * @param value - The observed value, e.g. a duration in seconds
+	 */
+	public observe(name: string, labels: MetricLabels, value: number): void {
+		const family = this.#families.get(name);
+		if (!family || family.type !== "histogram") return;
+
+		const key = labelKey(labels);
+		let sample = family.samples.get(key);
+
+		if (!sample) {
+			sample = { labels: { ...labels }, counts: family.buckets.map(() => 0), sum: 0, count: 0 };
+			family.samples.set(key, sample);
+		}
+
+		family.buckets.forEach((bound, index) => {
+			if (value <= bound) sample.counts[index] += 1;
+		});
+
+		sample.sum += value;
+		sample.count += 1;
+	}
+
+	/**
+	 * Removes all samples of a metric, e.g. before a gauge is collected again.
+	 *
+	 * @param name - The metric name
+	 */
+	public reset(name: string): void {
+		this.#families.get(name)?.samples.clear();
+	}
+
+	/**
+	 * Copies the current state of all metrics.
+	 *
+	 * @returns The metrics in the order they were defined
+	 */
+	public snapshot(): Metric[] {
+		return [...this.#families.values()].map((family): Metric => {
+			if (family.type === "histogram") {
+				return {
+					name: family.name,
+					help: family.help,
+					type: family.type,
+					buckets: [...family.buckets],
+					samples: [...family.samples.values()].map((sample) => ({
+						...sample,
+						labels: { ...sample.labels },
+						counts: [...sample.counts],
+					})),
+				};
+			}
+
+			return {
+				name: family.name,
+				help: family.help,
+				type: family.type,
+				samples: [...family.samples.values()].map((sample) => ({
+					...sample,
+					labels: { ...sample.labels },
+				})),
+			};
+		});
+	}
+}
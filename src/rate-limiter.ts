@@ -0,0 +1,81 @@
+import type { RateLimit } from "../types/index.d.ts";
+
+/**
+ * Sliding window rate limiter that tracks dispatches per task type.
+ *
+ * Limits configured on the queue take precedence over the ones declared by executors.
+ *
+ * @example
+ * ```typescript
+ * const limiter = new RateLimiter({ "send-sms": { max: 100, perMs: 60000 } });
+ *
+ * if (limiter.tryAcquire("send-sms")) {
+ *   // dispatch the task
+ * }
+ * ```
+ */
+export default class RateLimiter {
+	/** Rate limits per task type configured on the queue */
+	#limits: Record<string, RateLimit>;
+
+	/** Timestamps of the dispatches within the current window per task type */
+	#windows: Map<string, number[]> = new Map();
+
+	/** When the window of a task type over its limit lets the next dispatch through */
+	#reopensAt: Map<string, number> = new Map();
+
+	constructor(limits: Record<string, RateLimit> = {}) {
+		this.#limits = limits;
+	}
+
+	/**
+	 * Records a dispatch for a task type if it is within its rate limit.
+	 *
+	 * @param type - The task type to dispatch
+	 * @param fallback - The limit to apply if none is configured for the type, usually the executor's
+	 * @returns True if the task may be dispatched, false if the type is over its limit
+	 */
+	public tryAcquire(type: string, fallback?: RateLimit | null): boolean {
+		const limit = this.#limits[type] ?? fallback;
+
+		if (!limit) return true;
+
+		const now = Date.now();
+		const window = (this.#windows.get(type) || []).filter(
+			(timestamp) => timestamp > now - limit.perMs
+		);
+
+		if (window.length >= limit.max) {
+			this.#windows.set(type, window);
+			this.#reopensAt.set(type, window[window.length - limit.max] + limit.perMs);
+			return false;
+		}
+
+		window.push(now);
+		this.#windows.set(type, window);
+		this.#reopensAt.delete(type);
+
+		return true;
+	}
+
+	/**
+	 * Gets the time until the first task type that was turned away may be dispatched again.
+	 *
+	 * @param now - The current time in milliseconds
+	 * @returns Milliseconds until a window reopens, or null if no type is over its limit
+	 */
+	public nextReopenDelay(now: number = Date.now()): number | null {
+		let delay: number | null = null;
+
+		for (const [type, reopensAt] of this.#reopensAt) {
+			if (reopensAt <= now) {
+				this.#reopensAt.delete(type);
+				continue;
+			}
+
+			delay = Math.min(delay ?? Infinity, reopensAt - now);
+		}
+
+		return delay;
+	}
+}
@@ -0,0 +1,225 @@
+import type {
+	ResultStoreOptions,
+	StoredResult,
+	TaskResult,
+	TaskState,
+	WaitForResultOptions,
+} from "../types/index.d.ts";
+
+import Queue, { Task } from "../index.js";
+
+/** States a task doesn't leave anymore, only these have a result */
+export const FINISHED_STATES: TaskState[] = [
+	"completed",
+	"failed",
+	"timed_out",
+	"cancelled",
+	"expired",
+	"dead",
+];
+
+/** Maximum number of results kept in memory, older ones are still found in the database */
+const MAX_STORED_RESULTS = 10000;
+
+/**
+ * Keeps the results and errors of finished tasks for a configurable time.
+ *
+ * Results are kept in memory and persisted in the `result` and `result_expires_at` columns
+ * of the `tasks` table when a database is configured, so they can be retrieved from
+ * any process sharing the database.
+ *
+ * @example
+ * ```typescript
+ * const queue = new Queue("./tasks", { db, results: { retentionMs: 24 * 60 * 60 * 1000 } });
+ * const { status, result } = await queue.waitForResult(uid, { timeoutMs: 10000 });
+ * ```
+ */
+export default class ResultStore {
+	/** The queue instance this result store belongs to */
+	#queue: Queue;
+
+	/** Milliseconds results are kept after a task finished, null keeps them forever */
+	#retentionMs: number | null;
+
+	/** Milliseconds between database lookups while waiting for a result */
+	#pollIntervalMs: number;
+
+	/** Results of tasks that finished in this process keyed by task uid, oldest first */
+	#entries: Map<string, StoredResult> = new Map();
+
+	/** Callbacks waiting for the result of a task, keyed by task uid */
+	#waiters: Map<string, Set<(result: StoredResult) => void>> = new Map();
+
+	constructor(queue: Queue, options: ResultStoreOptions = {}) {
+		this.#queue = queue;
+		this.#retentionMs = options.retentionMs ?? null;
+		this.#pollIntervalMs = options.pollIntervalMs ?? 500;
+	}
+
+	/**
+	 * Stores the outcome of a finished task and hands it to the callers waiting for it.
+	 *
+	 * @param task - The finished task
+	 * @param result - What the executor returned, if the task completed
+	 */
+	public record(task: Task, result?: TaskResult<unknown> | null): StoredResult | undefined {
+		if (!FINISHED_STATES.includes(task.status)) return undefined;
+
+		const finishedAt = task.completedAt ?? task.failedAt ?? new Date();
+		const { error } = task.toJSON();
+
+		const stored: StoredResult = {
+			uid: task.uid,
+			status: task.status,
+			result: task.status === "completed" ? this.#strip(result) : undefined,
+			error,
+			finishedAt,
+			expiresAt: this.#expiresAt(finishedAt),
+		};
+
+		this.#entries.delete(task.uid);
+		this.#entries.set(task.uid, stored);
+		this.#prune();
+
+		for (const resolve of this.#waiters.get(task.uid) ?? []) resolve(stored);
+		this.#waiters.delete(task.uid);
+
+		return stored;
+	}
+
+	/**
+	 * Gets the result of a finished task, from memory or the database.
+	 *
+	 * @param uid - Unique identifier of the task
+	 * @returns The result, or undefined if the task hasn't finished or its result was discarded
+	 */
+	public async get(uid: string): Promise<StoredResult | undefined> {
+		const now = new Date();
+		const entry = this.#entries.get(uid);
+
+		if (entry) {
+			if (!entry.expiresAt || entry.expiresAt > now) return entry;
+
+			this.#entries.delete(uid);
+			return undefined;
+		}
+
+		const stored = await this.#queue.store.findResult(uid);
+
+		if (!stored || (stored.expiresAt && stored.expiresAt <= now)) return undefined;
+
+		return stored;
+	}
+
+	/**
+	 * Waits until a task finished and returns its result. Tasks running in another process
+	 * are picked up by polling the database, without `timeoutMs` until the result is found.
+	 *
+	 * @param uid - Unique identifier of the task
+	 * @param options - How long to wait at most
+	 * @throws {Error} When the task didn't finish within `timeoutMs`
+	 */
+	public wait(uid: string, options: WaitForResultOptions = {}): Promise<StoredResult> {
+		return new Promise((resolve, reject) => {
+			let poll: NodeJS.Timeout | undefined;
+			let timer: NodeJS.Timeout | undefined;
+
+			// Registered before the first lookup so a task finishing in the meantime isn't missed
+			const waiters = this.#waiters.get(uid) ?? new Set();
+			this.#waiters.set(uid, waiters);
+
+			const stop = () => {
+				clearTimeout(poll);
+				clearTimeout(timer);
+				waiters.delete(done);
+
+				if (waiters.size === 0 && this.#waiters.get(uid) === waiters) {
+					this.#waiters.delete(uid);
+				}
+			};
+
+			const done = (stored: StoredResult) => {
+				stop();
+				resolve(stored);
+			};
+
+			waiters.add(done);
+
+			const lookup = async () => {
+				const stored = await this.get(uid).catch(() => undefined);
+
+				if (!waiters.has(done)) return;
+				if (stored) return done(stored);
+
+				if (this.#queue.store.dbAdaptor) poll = setTimeout(lookup, this.#pollIntervalMs);
+			};
+
+			lookup();
+
+			if (options.timeoutMs !== undefined) {
+				timer = setTimeout(() => {
+					stop();
+					reject(new Error(`Timed out waiting for the result of task ${uid}`));
+				}, options.timeoutMs);
+			}
+		});
+	}
+
+	/**
+	 * Forgets the result of a task that is run again.
+	 *
+	 * @param uid - Unique identifier of the task
+	 */
+	public forget(uid: string): void {
+		this.#entries.delete(uid);
+	}
+
+	/**
+	 * Maps the result of a finished task to the result columns of its row in the tasks table,
+	 * the columns are cleared for tasks that haven't finished, e.g. when a task is retried.
+	 *
+	 * @param task - The task being saved
+	 * @param result - What the executor returned, if the task completed
+	 */
+	public toRow(task: Task, result?: TaskResult<unknown> | null) {
+		if (!FINISHED_STATES.includes(task.status)) {
+			return { result: null, result_expires_at: null };
+		}
+
+		const finishedAt = task.completedAt ?? task.failedAt ?? new Date();
+		const stripped = task.status === "completed" ? this.#strip(result) : undefined;
+
+		return {
+			result: stripped !== undefined ? JSON.parse(JSON.stringify(stripped)) : null,
+			result_expires_at: this.#expiresAt(finishedAt) ?? null,
+		};
+	}
+
+	#expiresAt(finishedAt: Date): Date | undefined {
+		return this.#retentionMs !== null
+			? new Date(finishedAt.getTime() + this.#retentionMs)
+			: undefined;
+	}
+
+	// Drops the internal `processed` flag workers add to results
+	#strip(result?: TaskResult<unknown> | null): unknown {
+		if (!result || typeof result !== "object") return result ?? undefined;
+
+		const { processed, ...rest } = result as TaskResult<Record<string, unknown>>;
+
+		return rest;
+	}
+
+	// Forgets results that are past their retention and the oldest ones over the limit
+	#prune() {
+		const now = new Date();
+
+		for (const [uid, entry] of this.#entries) {
+			const expired = entry.expiresAt && entry.expiresAt <= now;
+
+			if (!expired && this.#entries.size <= MAX_STORED_RESULTS) break;
+
+			this.#entries.delete(uid);
+		}
+	}
+}
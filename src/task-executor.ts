@@ -1,4 +1,13 @@
-import type { TaskData, TaskResult, TaskValidationRule, AdapterImplementation } from "../types/index.d.ts";
+import type {
+	TaskData,
+	TaskResult,
+	TaskValidationRule,
+	AdapterImplementation,
+	RateLimit,
+	RetryPolicy,
+	RetryRule,
+	CrashPolicy
+} from "../types/index.d.ts";
 
 import { Task } from "../index.js";
 
@@ -17,10 +26,30 @@ export default class TaskExecutor<T extends TaskData = TaskData, R = any> {
 		return this.validationSchema()
 	}
 
-	retrySchema(): string[] {
+	retrySchema(): RetryRule[] {
 		return [];
 	}
 
+	nonRetryable(): RetryRule[] {
+		return [];
+	}
+
+	retryPolicy(): RetryPolicy | null {
+		return null;
+	}
+
+	rateLimit(): RateLimit | null {
+		return null;
+	}
+
+	concurrency(): number | null {
+		return null;
+	}
+
+	crashPolicy(): CrashPolicy {
+		return "retry";
+	}
+
 	async exec(_task: Task<T>): Promise<TaskResult<R>> {
 		return { processed: true } as TaskResult<R>;
 	}
@@ -32,6 +61,11 @@ export default class TaskExecutor<T extends TaskData = TaskData, R = any> {
 		_db: AdapterImplementation | null
 	) {}
 
+	async onExpired(
+		_task: Task<T>,
+		_db: AdapterImplementation | null
+	) {}
+
 	async onComplete(
 		_task: Task<T>,
 		_result: TaskResult<R>,
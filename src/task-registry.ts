@@ -5,7 +5,9 @@ import { Task } from "../index.js";
 import TaskExecutor from "./task-executor.js";
 import { ensureDir, getFileParts } from "./lib/files.js";
 import { generateClassName } from "./lib/util.js";
+import { createLogger } from "./lib/logger.js";
 import { TaskModule } from "../types/task.js";
+import type { Logger } from "../types/index.d.ts";
 
 export default class TaskExecutorRegistry {
 	public taskTypes: string[] = [];
@@ -13,8 +15,11 @@ export default class TaskExecutorRegistry {
 	#registry: Map<string, TaskExecutor> = new Map();
 	#initialized: boolean = false;
 	#workerId: string | undefined = process.env.WORKER_ID;
+	#logger: Logger;
 
-	constructor() {}
+	constructor(logger: Logger = createLogger()) {
+		this.#logger = logger;
+	}
 
 	async #validateExecutorModule(
 		executorModule: TaskModule,
@@ -38,6 +43,7 @@ export default class TaskExecutorRegistry {
 		const executor: TaskExecutor = new ExecutorClass(taskType);
 		const className = generateClassName(taskType);
 		const retrySchema = executor.retrySchema();
+		const nonRetryable = executor.nonRetryable();
 		const validationSchema = executor.validationSchema();
 
 		executor.__rawValidationSchema = () => [...validationSchema];
@@ -51,6 +57,12 @@ export default class TaskExecutorRegistry {
 				`${className}.retrySchema() does not return an array`
 			);
 
+		if (!Array.isArray(nonRetryable))
+			return result(
+				false,
+				`${className}.nonRetryable() does not return an array`
+			);
+
 		// .validationSchema() validation
 		// ================================================
 
@@ -93,20 +105,22 @@ export default class TaskExecutorRegistry {
 		// If this is not a worker, warn the user of the invalid entries
 		if (!this.#workerId) {
 			if (invalidEntries.length > 0) {
-				console.warn(
-					`Validation sanitization for ${className}: removed ${invalidEntries.length} invalid validator(s).` +
-						` Indices: [${invalidEntries.map((e) => e.index).join(", ")}];` +
-						` Types: [${invalidEntries
-							.map((e) => typeof e.value)
-							.join(", ")}];` +
-						` Reasons: [${invalidEntries.map((e) => e.reason).join(", ")}]`
+				this.#logger.warn(
+					{
+						type: taskType,
+						indices: invalidEntries.map((e) => e.index),
+						types: invalidEntries.map((e) => typeof e.value),
+						reasons: invalidEntries.map((e) => e.reason),
+					},
+					`Validation sanitization for ${className}: removed ${invalidEntries.length} invalid validator(s)`
 				);
 			}
 			if (
 				cleanValidationSchema.length === 0 &&
 				executor.__rawValidationSchema().length !== 0
 			) {
-				console.warn(
+				this.#logger.warn(
+					{ type: taskType },
 					`${className}: validationSchema() is empty after sanitization`
 				);
 			}
@@ -121,7 +135,7 @@ export default class TaskExecutorRegistry {
 		if (this.#initialized) return;
 
 		const executorDir = path.join(process.cwd(), taskDirectoryPath);
-		await ensureDir(executorDir);
+		await ensureDir(executorDir, this.#logger);
 
 		const executorFiles = (await fs.promises.readdir(executorDir)).filter(
 			(file) =>
@@ -138,20 +152,12 @@ export default class TaskExecutorRegistry {
 
 		this.#initialized = true;
 
-		console.log(
-			`[${
-				this.#workerId ? this.#workerId : "Anqueue"
-			}] 🔧 Task registry initialized`
-		);
+		this.#logger.debug({ types: this.taskTypes }, "Task registry initialized");
 	}
 
 	#initWarning() {
 		if (!this.#initialized) {
-			console.warn(
-				`[${
-					this.#workerId ? this.#workerId : "Anqueue"
-				}] ❗️ Task registry not initialized`
-			);
+			this.#logger.warn({}, "Task registry not initialized");
 		}
 	}
 
@@ -166,10 +172,9 @@ export default class TaskExecutorRegistry {
 		);
 
 		if (!passed) {
-			console.error(
-				`⏩ Skipping task module ${taskType}, invalid task executor; ${
-					reason || ""
-				}`
+			this.#logger.error(
+				{ type: taskType, reason },
+				`Skipping task module ${taskType}, invalid task executor`
 			);
 			return;
 		}
@@ -179,8 +184,9 @@ export default class TaskExecutorRegistry {
 
 		// Only log the registration of individual executors on the queue itself, not if it is a worker.
 		if (!this.#workerId) {
-			console.log(
-				`[Anqueue] 🔧 Registered executor for task type: ${executor.taskType}`
+			this.#logger.info(
+				{ type: executor.taskType },
+				`Registered executor for task type: ${executor.taskType}`
 			);
 		}
 	}
@@ -1,11 +1,43 @@
-import type { WorkerTaskStatus } from "../types/index.d.ts";
+import type { WorkerTaskStatus, PauseState, StoredResult } from "../types/index.d.ts";
 
 import Queue, { PrismaAdapter, MySQLAdapter, Task } from "../index.js";
+import { FINISHED_STATES } from "./result-store.js";
+import { getDefaultMaxRetries, getDefaultTimeout } from "./task.js";
+
+/**
+ * Columns of the tasks table used by optional features, see the expected schema in the README.
+ * Tables created with the basic schema only need them once the features are used.
+ */
+const FEATURE_COLUMNS = [
+	"priority",
+	"metadata",
+	"run_at",
+	"enqueued_at",
+	"expires_at",
+	"repeat",
+	"depends_on",
+	"dependency_policy",
+	"include_dependency_results",
+	"idempotency_key",
+	"dedupe_policy",
+	"retry_count",
+	"max_retries",
+	"retry_policy",
+	"timeout",
+	"ttl_ms",
+	"error_history",
+	"progress",
+	"progress_message",
+	"progress_data",
+];
 
 export default class TaskStore {
 	dbAdaptor: PrismaAdapter | MySQLAdapter | null = null;
 	#queue: Queue;
 
+	/** Columns of the tasks table, learned from the rows read and written, null until one was seen */
+	#columns: Set<string> | null = null;
+
 	constructor(queue: Queue, db?: PrismaAdapter | MySQLAdapter) {
 		this.#queue = queue;
 		this.dbAdaptor = db || null;
@@ -16,9 +48,11 @@ export default class TaskStore {
 		if (!this.dbAdaptor) return;
 
 		if (!this.dbAdaptor.db.tasks) {
-			return console.warn("[Anqueue] No task table found, skipping task sync");
+			return this.#queue.logger.warn({}, "No task table found, skipping task sync");
 		}
 
+		await this.#purgeResults();
+
 		// Find any pending tasks in the db with an active executor to process it
 		const pendingTasks = await this.dbAdaptor.findMany("tasks", {
 			where: {
@@ -29,24 +63,84 @@ export default class TaskStore {
 			},
 		});
 
+		await this.#resolveDependencies();
+
 		if (pendingTasks.length === 0) return;
 
+		this.#learnColumns(pendingTasks[0]);
+
 		// Filter out and add any tasks that are not already in the queue.
-		pendingTasks
+		const tasks = pendingTasks
 			.filter((task: any) => {
-				return task && task.uid && !this.#queue.getTask(task.uid);
+				if (!task || !task.uid || this.#queue.getTask(task.uid)) return false;
+
+				// Skip duplicates of tasks that were already added to this queue under another uid
+				return !task.idempotency_key || !this.#queue.findByIdempotencyKey(task.idempotency_key);
 			})
-			.map((data: any) => {
-				this.#queue.add(
-					new Task({
-						uid: data.uid,
-						type: data.type,
-						name: data.name,
-						data: data.data || {},
-						description: data.description,
-					})
-				);
+			.map((data: any) => this.taskFromRow(data));
+
+		for (const task of tasks) {
+			// Tasks that went stale while nobody was processing them don't run anymore
+			if (task.isExpired()) {
+				await this.#queue.expireTask(task);
+				continue;
+			}
+
+			this.#queue.add(task);
+		}
+	}
+
+	// Reconstructs a task from a row in the tasks table.
+	taskFromRow(data: any): Task {
+		const json = (value: unknown) =>
+			typeof value === "string" ? JSON.parse(value) : value || undefined;
+
+		return Task.fromPlainObject({
+			uid: data.uid,
+			type: data.type,
+			name: data.name,
+			data: data.data || {},
+			description: data.description,
+			status: data.status,
+			priority: data.priority ?? undefined,
+			metadata: json(data.metadata),
+			runAt: data.run_at || undefined,
+			enqueuedAt: data.enqueued_at || undefined,
+			expiresAt: data.expires_at || undefined,
+			ttlMs: data.ttl_ms ?? undefined,
+			repeat: json(data.repeat),
+			dependsOn: json(data.depends_on),
+			dependencyPolicy: data.dependency_policy || undefined,
+			includeDependencyResults: Boolean(data.include_dependency_results),
+			idempotencyKey: data.idempotency_key || undefined,
+			dedupePolicy: data.dedupe_policy || undefined,
+			retryCount: data.retry_count ?? undefined,
+			maxRetries: data.max_retries ?? undefined,
+			retryPolicy: json(data.retry_policy),
+			timeout: data.timeout ?? undefined,
+			errorHistory: json(data.error_history),
+			failedAt: ["failed", "timed_out", "dead"].includes(data.status) ? data.finished_at : undefined,
+		});
+	}
+
+	// Look up the outcome of dependencies that finished before a restart or in another process.
+	async #resolveDependencies() {
+		const uids = this.#queue.getUnresolvedDependencies();
+
+		if (!this.dbAdaptor || uids.length === 0) return;
+
+		const finishedTasks = await this.dbAdaptor.findMany("tasks", {
+			where: {
+				uid: { in: uids },
+				status: { in: ["completed", "failed", "timed_out", "cancelled", "expired", "dead"] },
+			},
+		});
+
+		for (const data of finishedTasks) {
+			this.#queue.recordOutcome(data.uid, {
+				status: data.status === "dead" || data.status === "timed_out" ? "failed" : data.status,
 			});
+		}
 	}
 
 	async saveTask(status: WorkerTaskStatus) {
@@ -55,36 +149,287 @@ export default class TaskStore {
 		if (!task || !this.dbAdaptor) return;
 
 		if (!this.dbAdaptor.db.tasks) {
-			return console.warn("[Anqueue] No task table found, skipping task save");
+			return this.#queue.logger.warn({}, "No task table found, skipping task save");
 		}
 
 		if (status.result && "processed" in status.result) {
 			delete (status.result as Partial<typeof status.result>).processed;
 		}
 
-		const insert = {
+		const insert = { ...this.#toRow(task), ...this.#queue.results?.toRow(task, status.result) };
+
+		const row = await this.dbAdaptor.upsert("tasks", {
+			where: { uid: task.uid },
+			update: insert,
+			create: insert,
+		});
+
+		this.#learnColumns(row);
+
+		if (task.status === "completed") {
+			this.#queue.remove(task.uid);
+		}
+	}
+
+	/**
+	 * Inserts new tasks in a single call.
+	 *
+	 * @param tasks - The tasks to insert
+	 */
+	async saveTasks(tasks: Task[]) {
+		if (!this.dbAdaptor || tasks.length === 0) return;
+
+		if (!this.dbAdaptor.db.tasks) {
+			return this.#queue.logger.warn({}, "No task table found, skipping task save");
+		}
+
+		await this.dbAdaptor.createMany("tasks", {
+			data: tasks.map((task) => this.#toRow(task)),
+		});
+	}
+
+	/**
+	 * Persists the progress of a running task. Only an existing row is updated, the row itself
+	 * is written by {@link saveTask}, and nothing is written while the table isn't known to have
+	 * the progress columns.
+	 *
+	 * @param task - The running task
+	 */
+	async saveProgress(task: Task) {
+		if (!this.dbAdaptor || !this.dbAdaptor.db.tasks) return;
+
+		const { progress, progress_message, progress_data } = this.#toRow(task);
+
+		if (progress === undefined) return;
+
+		await this.dbAdaptor.updateMany("tasks", {
+			where: { uid: task.uid },
+			data: { progress, progress_message, progress_data },
+		});
+	}
+
+	// Maps a task to a row in the tasks table. The columns of optional features are written when the
+	// table is known to have them, or when the task uses the feature, so tables with the basic schema
+	// keep working as long as the features aren't used.
+	#toRow(task: Task): Record<string, unknown> {
+		const json = (value: unknown) => (value !== undefined ? JSON.parse(JSON.stringify(value)) : null);
+
+		const row: Record<string, unknown> = {
 			uid: task.uid,
 			type: task.type,
 			name: task.name,
 			description: task.description,
 			status: task.status,
-			data: task.data ? JSON.parse(JSON.stringify(task.data)) : null,
-			error: task.error ? JSON.stringify(task.error) : null, // only if error is a string column
+			data: task.data ? json(task.data) : null,
+			error: task.error // only if error is a string column
+				? JSON.stringify({ name: task.error.name, message: task.error.message, stack: task.error.stack })
+				: null,
 			usersId: task.userId,
 			started_at: task.startedAt,
-			finished_at: task.completedAt,
+			finished_at: task.completedAt ?? task.failedAt,
 		};
 
-		await this.dbAdaptor
-			.upsert("tasks", {
-				where: { uid: task.uid },
-				update: insert,
-				create: insert,
-			})
-			.then(() => {
-				if (task.status === "completed") {
-					this.#queue.remove(task.uid);
-				}
-			});
+		// Column, value and whether the task uses the feature
+		const features: [string, unknown, boolean][] = [
+			["priority", task.priority, task.priority !== 0],
+			["metadata", json(task.metadata), Object.keys(task.metadata).length > 0],
+			["run_at", task.runAt ?? null, !!task.runAt],
+			["enqueued_at", task.enqueuedAt ?? null, false],
+			["expires_at", task.expiresAt ?? null, !!task.expiresAt],
+			["repeat", task.repeat ? json(task.repeat) : null, !!task.repeat],
+			["depends_on", task.dependsOn.length > 0 ? [...task.dependsOn] : null, task.dependsOn.length > 0],
+			["dependency_policy", task.dependencyPolicy, task.dependencyPolicy !== "cancel"],
+			["include_dependency_results", task.includeDependencyResults, task.includeDependencyResults],
+			["idempotency_key", task.idempotencyKey ?? null, !!task.idempotencyKey],
+			["dedupe_policy", task.dedupePolicy ?? null, !!task.dedupePolicy],
+			["retry_count", task.retryCount, task.retryCount > 0],
+			["max_retries", task.maxRetries, task.maxRetries !== getDefaultMaxRetries()],
+			// Functions only apply in the process that added the task
+			[
+				"retry_policy",
+				task.retryPolicy && typeof task.retryPolicy === "object" ? json(task.retryPolicy) : null,
+				!!task.retryPolicy && typeof task.retryPolicy === "object",
+			],
+			["timeout", task.timeout, task.timeout !== getDefaultTimeout()],
+			["ttl_ms", task.ttlMs ?? null, !!task.ttlMs],
+			[
+				"error_history",
+				task.errorHistory.length > 0
+					? task.errorHistory.map(({ name, message, stack }) => ({ name, message, stack }))
+					: null,
+				task.errorHistory.length > 0,
+			],
+			["progress", task.progress, false],
+			["progress_message", task.progressMessage ?? null, false],
+			["progress_data", json(task.progressData), false],
+		];
+
+		for (const [column, value, used] of features) {
+			if (used || this.#columns?.has(column)) row[column] = value;
+		}
+
+		return row;
+	}
+
+	// Remembers the columns of the tasks table from a row read from or written to it
+	#learnColumns(row: unknown): boolean {
+		if (!row || typeof row !== "object") return false;
+
+		this.#columns = new Set(Object.keys(row));
+
+		return true;
+	}
+
+	/**
+	 * Looks up the columns of the tasks table and warns about the missing columns of optional
+	 * features. Tasks using these features fail to save until the table is migrated.
+	 *
+	 * The check is skipped while the table is empty, its columns can't be told from a row then.
+	 */
+	async inspectSchema(): Promise<void> {
+		this.#columns = null;
+
+		if (!this.dbAdaptor || !this.dbAdaptor.db.tasks) return;
+
+		const row = await this.dbAdaptor.findFirst("tasks", {});
+
+		if (!this.#learnColumns(row)) return;
+
+		const expected = this.#queue.results
+			? [...FEATURE_COLUMNS, "result", "result_expires_at"]
+			: FEATURE_COLUMNS;
+		const missing = expected.filter((column) => !this.#columns!.has(column));
+
+		if (missing.length === 0) return;
+
+		this.#queue.logger.warn(
+			{ missing },
+			`The tasks table has no ${missing.join(", ")} column(s), tasks using these features can't be saved until it is migrated`
+		);
+	}
+
+	async deleteTask(uid: string) {
+		if (!this.dbAdaptor || !this.dbAdaptor.db.tasks) return;
+
+		await this.dbAdaptor.delete("tasks", { where: { uid } });
+	}
+
+	/**
+	 * Looks up a task in the tasks table.
+	 *
+	 * @param uid - Unique identifier of the task
+	 * @returns The task, or undefined if it wasn't found
+	 */
+	async findTask(uid: string): Promise<Task | undefined> {
+		if (!this.dbAdaptor || !this.dbAdaptor.db.tasks) return undefined;
+
+		const data = await this.dbAdaptor.findFirst("tasks", { where: { uid } });
+
+		if (!this.#learnColumns(data)) return undefined;
+
+		return this.taskFromRow(data);
+	}
+
+	/**
+	 * Looks up the pending and running tasks with one of the idempotency keys in the tasks table.
+	 *
+	 * @param keys - The idempotency keys to look for
+	 * @returns The tasks, in no particular order
+	 */
+	async findByIdempotencyKeys(keys: string[]): Promise<Task[]> {
+		if (!this.dbAdaptor || !this.dbAdaptor.db.tasks || keys.length === 0) return [];
+
+		const rows = await this.dbAdaptor.findMany("tasks", {
+			where: {
+				idempotency_key: { in: keys },
+				status: { in: ["pending", "running"] },
+			},
+		});
+
+		return rows.map((data: any) => this.taskFromRow(data));
+	}
+
+	/**
+	 * Looks up the result of a finished task in the tasks table.
+	 *
+	 * @param uid - Unique identifier of the task
+	 * @returns The result, or undefined if the task wasn't found or hasn't finished
+	 */
+	async findResult(uid: string): Promise<StoredResult | undefined> {
+		if (!this.dbAdaptor || !this.dbAdaptor.db.tasks) return undefined;
+
+		const data = await this.dbAdaptor.findFirst("tasks", { where: { uid } });
+
+		if (!data || !FINISHED_STATES.includes(data.status)) return undefined;
+
+		const json = (value: unknown) =>
+			typeof value === "string" ? JSON.parse(value) : value ?? undefined;
+
+		return {
+			uid: data.uid,
+			status: data.status,
+			result: data.status === "completed" ? json(data.result) : undefined,
+			error: data.error ? json(data.error) : undefined,
+			finishedAt: data.finished_at ?? new Date(),
+			expiresAt: data.result_expires_at || undefined,
+		};
+	}
+
+	// Clears the results that are past their retention.
+	async #purgeResults() {
+		if (!this.dbAdaptor || !this.#queue.results) return;
+
+		await this.dbAdaptor.updateMany("tasks", {
+			where: { result_expires_at: { lte: new Date() } },
+			data: { result: null, result_expires_at: null },
+		});
+	}
+
+	async findDeadTasks(): Promise<Task[]> {
+		if (!this.dbAdaptor || !this.dbAdaptor.db.tasks) return [];
+
+		const deadTasks = await this.dbAdaptor.findMany("tasks", {
+			where: { status: { in: ["dead", "timed_out"] } },
+		});
+
+		return deadTasks.map((data: any) => this.taskFromRow(data));
+	}
+
+	async savePauseState(state: PauseState) {
+		if (!this.dbAdaptor) return;
+
+		if (!this.dbAdaptor.db.queue_state) {
+			return this.#queue.logger.warn({}, "No queue_state table found, skipping pause state save");
+		}
+
+		const insert = {
+			queue_id: this.#queue.id,
+			paused: state.paused,
+			paused_types: [...state.pausedTypes],
+		};
+
+		await this.dbAdaptor.upsert("queue_state", {
+			where: { queue_id: this.#queue.id },
+			update: insert,
+			create: insert,
+		});
+	}
+
+	async loadPauseState(): Promise<PauseState | null> {
+		if (!this.dbAdaptor || !this.dbAdaptor.db.queue_state) return null;
+
+		const state = await this.dbAdaptor.findFirst("queue_state", {
+			where: { queue_id: this.#queue.id },
+		});
+
+		if (!state) return null;
+
+		return {
+			paused: Boolean(state.paused),
+			pausedTypes:
+				typeof state.paused_types === "string"
+					? JSON.parse(state.paused_types)
+					: state.paused_types || [],
+		};
 	}
 }
@@ -1,76 +1,108 @@
 import Queue, { Task } from "index.js";
+import { taskFields } from "./lib/logger.js";
 
-export async function single(queue: Queue, tasks: Task[]) {
-	const stats = {
+import type { DispatchStats } from "../types/index.d.ts";
+
+export function createDispatchStats(): DispatchStats {
+	return {
 		tasksSent: 0,
 		noWorkerAvailable: 0,
 		noExecutorFound: 0,
 		validationFailed: 0,
+		rateLimited: 0,
+		concurrencyLimited: 0,
+		expired: 0,
 	};
+}
 
-	for (const task of tasks) {
-		const worker = queue.workers.getAvailable();
+// Runs all checks a task has to pass before it can be sent to a worker.
+// `pending` holds the tasks that passed but haven't been dispatched yet, e.g. the batch being built.
+async function prepareTask(
+	queue: Queue,
+	task: Task,
+	stats: DispatchStats,
+	pending: Task[] = []
+): Promise<boolean> {
+	if (task.isExpired()) {
+		stats.expired += 1;
+		await queue.expireTask(task);
+		return false;
+	}
 
-		if (!worker) {
-			stats.noWorkerAvailable += 1;
-			continue;
-		}
+	const executor = queue.executorRegistry.getExecutor(task.type);
 
-		const executor = queue.executorRegistry.getExecutor(task.type);
+	if (!executor) {
+		stats.noExecutorFound += 1;
+		queue.logger.warn(
+			taskFields(task),
+			`Skipping and removing task: ${task.name} (No executor found)`
+		);
+		queue.remove(task.uid);
+		return false;
+	}
 
-		if (!executor) {
-			stats.noExecutorFound += 1;
-			console.warn(
-				`[Anqueue] ⏩ Skipping and removing task: ${task.name} (No executor found)`
-			);
-			queue.remove(task.uid);
-			continue;
-		}
+	// Validate task before sending to worker, its data won't change so it is failed right away
+	const { passed, reason } = task.validate(executor.validationSchema());
 
-		// Validate task before sending to worker
-		const { passed, reason } = task.validate(executor.validationSchema());
+	if (!passed) {
+		stats.validationFailed += 1;
 
-		if (!passed) {
-			if (task.retryCount >= task.maxRetries) {
-				console.warn(
-					`[Anqueue] ⏩ Skipping and removing task: ${task.name} (Max retries reached)`
-				);
+		const error = new Error(`Task ${task.name} validation failed: ${reason}`);
 
-				task.status = "failed";
-				task.failedAt = new Date();
+		task.addError(error);
+		queue.logger.warn({ ...taskFields(task), reason }, error.message);
+		queue.failTask(task, error.message);
 
-				queue.remove(task.uid);
+		await executor.onFailure(
+			task,
+			{ processed: false },
+			error,
+			queue.store.dbAdaptor
+		);
 
-				queue.store.saveTask({
-					task: task,
-					error: "Max retries reached",
-					result: null,
-				});
+		return false;
+	}
 
-				continue;
-			}
+	// Leave the task pending while its type is at its concurrency limit
+	const concurrency = queue.getConcurrencyLimit(task.type);
 
-			stats.validationFailed += 1;
-			task.status = "failed";
-			task.retryCount += 1;
+	if (concurrency !== null) {
+		const running =
+			queue.getRunningCount(task.type) +
+			pending.filter(({ type }) => type === task.type).length;
 
-			const error = new Error(`Task ${task.name} validation failed: ${reason}`);
+		if (running >= concurrency) {
+			stats.concurrencyLimited += 1;
+			return false;
+		}
+	}
 
-			task.addError(error);
+	// Leave the task pending when its type is over the rate limit, it is re-evaluated on the next cycle
+	if (!queue.rateLimiter.tryAcquire(task.type, executor.rateLimit())) {
+		stats.rateLimited += 1;
+		return false;
+	}
 
-			await executor.onFailure(
-				task,
-				{ processed: false },
-				error,
-				queue.store.dbAdaptor
-			);
+	return true;
+}
 
+export async function single(queue: Queue, tasks: Task[]) {
+	const stats = createDispatchStats();
+
+	for (const task of tasks) {
+		const worker = queue.workers.getAvailable();
+
+		if (!worker) {
+			stats.noWorkerAvailable += 1;
 			continue;
 		}
 
+		if (!(await prepareTask(queue, task, stats))) continue;
+
 		worker.send({ event: "taskSingle", task });
+		worker.reserve(1);
 
-		queue.remove(task.uid, true);
+		queue.trackDispatched(task, worker.id);
 
 		stats.tasksSent += 1;
 	}
@@ -79,12 +111,7 @@ export async function single(queue: Queue, tasks: Task[]) {
 }
 
 export async function batch(queue: Queue, tasks: Task[]) {
-	const stats = {
-		tasksSent: 0,
-		noWorkerAvailable: 0,
-		noExecutorFound: 0,
-		validationFailed: 0,
-	};
+	const stats = createDispatchStats();
 
 	const availableWorkers = queue.workers.getAvailableWorkers();
 
@@ -96,69 +123,23 @@ export async function batch(queue: Queue, tasks: Task[]) {
 			continue;
 		}
 
-		const batch = tasks.splice(0, capacity);
+		const batch: Task[] = [];
 
-		if (batch.length === 0) {
-			continue;
+		while (batch.length < capacity && tasks.length > 0) {
+			const task = tasks.shift()!;
+
+			if (await prepareTask(queue, task, stats, batch)) batch.push(task);
 		}
 
-		for (const task of batch) {
-			const executor = queue.executorRegistry.getExecutor(task.type);
-
-			if (!executor) {
-				stats.noExecutorFound += 1;
-				console.warn(
-					`[Anqueue] ⏩ Skipping and removing task: ${task.name} (No executor found)`
-				);
-				queue.remove(task.uid);
-				continue;
-			}
-
-			const { passed, reason } = task.validate(executor.validationSchema());
-
-			if (!passed) {
-				if (task.retryCount >= task.maxRetries) {
-					console.warn(
-						`[Anqueue] ⏩ Skipping and removing task: ${task.name} (Max retries reached)`
-					);
-	
-					task.status = "failed";
-					task.failedAt = new Date();
-	
-					queue.remove(task.uid);
-	
-					queue.store.saveTask({
-						task: task,
-						error: "Max retries reached",
-						result: null,
-					});
-	
-					continue;
-				}
-	
-				stats.validationFailed += 1;
-				task.status = "failed";
-				task.retryCount += 1;
-	
-				const error = new Error(`Task ${task.name} validation failed: ${reason}`);
-	
-				task.addError(error);
-	
-				await executor.onFailure(
-					task,
-					{ processed: false },
-					error,
-					queue.store.dbAdaptor
-				);
-	
-				continue;
-			}
+		if (batch.length === 0) {
+			continue;
 		}
 
 		worker.send({ event: "taskBatch", batch });
+		worker.reserve(batch.length);
 
 		for (const task of batch) {
-			queue.remove(task.uid, true);
+			queue.trackDispatched(task, worker.id);
 		}
 
 		stats.tasksSent += batch.length;
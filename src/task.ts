@@ -1,4 +1,39 @@
-import type { TaskOptions, TaskStatus, TaskResult, TaskData, TaskValidationRule } from "../types/index.d.ts";
+import type {
+	TaskOptions,
+	TaskStatus,
+	TaskResult,
+	TaskData,
+	TaskValidationRule,
+	RepeatOptions,
+	DependencyPolicy,
+	DedupePolicy,
+	TaskState,
+	SerializedError,
+	TaskProgress,
+	RetryPolicy,
+	RetryRule
+} from "../types/index.d.ts";
+
+import { nextCronDate } from "./lib/cron.js";
+import { isRetryable } from "./lib/retry.js";
+
+/** Retries of tasks that don't set `maxRetries` */
+export function getDefaultMaxRetries(): number {
+	return Number(process.env.MAX_TASK_RETRIES) || 3;
+}
+
+/** Timeout in milliseconds of tasks that don't set `timeout` */
+export function getDefaultTimeout(): number {
+	return Number(process.env.TASK_TIMEOUT_MS) || 30000; // 30 seconds
+}
+
+interface TaskTimeout {
+	/** Rejects once the timeout expired */
+	expired: Promise<never>;
+	/** The timeout error, set once the timeout expired */
+	error?: Error;
+	clear(): void;
+}
 
 export default class QueueTask<TData = TaskData> {
 	// Core properties
@@ -8,9 +43,10 @@ export default class QueueTask<TData = TaskData> {
 	description?: string;
 
 	// Status & state
-	status: "pending" | "running" | "completed" | "failed" | "cancelled" =
-		"pending";
+	status: TaskState = "pending";
 	progress: number = 0;
+	progressMessage?: string;
+	progressData?: unknown;
 	startedAt?: Date;
 	failedAt?: Date;
 	completedAt?: Date;
@@ -21,12 +57,28 @@ export default class QueueTask<TData = TaskData> {
 	#reject!: (error: unknown) => void;
 
 	// Configuration
+	idempotencyKey?: string;
+	dedupePolicy?: DedupePolicy;
+	retryPolicy?: RetryPolicy;
 	priority: number;
 	retryCount: number = 0;
 	maxRetries: number;
 	delay: number;
 	timeout: number;
 	runAt?: Date;
+	repeat?: RepeatOptions;
+	expiresAt?: Date;
+	ttlMs?: number;
+
+	// Ordering
+	enqueuedAt?: Date;
+	sequence: number = 0;
+
+	// Dependencies
+	dependsOn: string[];
+	dependencyPolicy: DependencyPolicy;
+	includeDependencyResults: boolean;
+	dependencyResults?: Record<string, unknown>;
 
 	// Data & context
 	data: TData;
@@ -37,24 +89,53 @@ export default class QueueTask<TData = TaskData> {
 	error?: Error;
 	errorHistory: Error[] = [];
 
+	// Listeners
+	#progressListener?: (progress: TaskProgress) => void;
+
+	// Cancellation
+	#abortController: AbortController = new AbortController();
+
 	constructor(options: TaskOptions<TData>) {
 		this.uid = options.uid || this.#generateId();
 		this.name = options.name;
 		this.type = options.type;
 		this.description = options.description;
+		this.idempotencyKey = options.idempotencyKey;
+		this.dedupePolicy = options.dedupePolicy;
+		this.retryPolicy = options.retryPolicy;
 		this.priority = options.priority || 0;
-		this.maxRetries = options.maxRetries || Number(process.env.MAX_TASK_RETRIES) || 3;
+		this.maxRetries = options.maxRetries || getDefaultMaxRetries();
 		this.delay = options.delay || 0;
-		this.timeout = options.timeout || Number(process.env.TASK_TIMEOUT_MS) || 30000; // 30 seconds default
+		this.timeout = options.timeout || getDefaultTimeout();
 		this.data = options.data as TData;
 		this.userId = options.userId;
 		this.metadata = options.metadata || {};
 		this.runAt = options.runAt ? new Date(options.runAt) : undefined;
+		this.enqueuedAt = options.enqueuedAt ? new Date(options.enqueuedAt) : undefined;
+		this.repeat = options.repeat
+			? {
+				...options.repeat,
+				endDate: options.repeat.endDate ? new Date(options.repeat.endDate) : undefined,
+			}
+			: undefined;
+
+		this.dependsOn = options.dependsOn || [];
+		this.dependencyPolicy = options.dependencyPolicy || "cancel";
+		this.includeDependencyResults = options.includeDependencyResults || false;
+
+		// Recurring cron tasks start at their first scheduled occurrence
+		if (!this.runAt && this.repeat?.cron) {
+			this.runAt = nextCronDate(this.repeat.cron);
+		}
+
+		this.ttlMs = options.ttlMs;
+		this.expiresAt = options.expiresAt
+			? new Date(options.expiresAt)
+			: options.ttlMs
+				? new Date((this.runAt?.getTime() ?? Date.now()) + options.ttlMs)
+				: undefined;
 		
-		this.promise = new Promise((resolve, reject) => {
-			this.#resolve = resolve;
-			this.#reject = reject;
-		});
+		this.promise = this.#createPromise();
 	}
 
 	// Public methods
@@ -84,7 +165,21 @@ export default class QueueTask<TData = TaskData> {
 		return result;
 	}
 
-	async execute<TResult>(executor: (task: QueueTask<TData>) => Promise<TaskResult<TResult>>, retrySchema: () => string[]): Promise<TaskResult<TResult>> {
+	/**
+	 * Executes the task with its timeout.
+	 *
+	 * With a soft timeout the task fails right away when the timeout expires, while the executor
+	 * may keep running in the background. With a hard timeout the task's signal is aborted and
+	 * the task settles as `timed_out` once the executor stopped.
+	 *
+	 * @param executor - The function executing the task
+	 * @param options - Whether the timeout is hard, and a callback called once the task is
+	 * running, before the executor can report progress
+	 */
+	async execute<TResult>(
+		executor: (task: QueueTask<TData>) => Promise<TaskResult<TResult>>,
+		options: { hardTimeout?: boolean; onStart?: () => void } = {}
+	): Promise<TaskResult<TResult>> {
 		if (this.status !== "pending") {
 			throw new Error(`Task ${this.uid} is not in pending status`);
 		}
@@ -93,13 +188,26 @@ export default class QueueTask<TData = TaskData> {
 		this.startedAt = new Date();
 		this.progress = 0;
 
+		options.onStart?.();
+
+		let timeout: TaskTimeout | undefined;
+
 		try {
 			if (this.delay > 0) {
 				await this.sleep(this.delay);
+				this.signal.throwIfAborted();
 			}
 
 			// Execute the task with timeout
-			const result = await Promise.race([executor(this), this.#createTimeout()]);
+			timeout = this.#createTimeout(!!options.hardTimeout);
+
+			const execution = executor(this);
+			const result = await (options.hardTimeout
+				? execution
+				: Promise.race([execution, timeout.expired]));
+
+			// The executor may still return after it was cancelled or timed out
+			if (this.signal.aborted) throw this.signal.reason;
 
 			if(!result.processed) {
 				this.#setFailed();
@@ -109,39 +217,220 @@ export default class QueueTask<TData = TaskData> {
 			this.#setCompleted();
 			this.#resolve(result);
 
-			const workerId = process.env.WORKER_ID;
-
-			console.log(`[${workerId ? workerId : "Anqueue"}] (${this.name}): Description: ${this.description} | Status: ${this.status}`);
-
 			return result;
 		} catch (error) {
-			// Recursively retry if retry schema condition is met
-			if (this.#shouldRetry(error as Error, retrySchema()) && this.#retry()) {
-				console.warn(`Retrying task ${this.uid} (attempt ${this.retryCount}) due to error:`, error);
-				return this.execute(executor, retrySchema);
+			if (timeout?.error && this.signal.reason === timeout.error) {
+				this.timeOut(timeout.error);
+				throw timeout.error;
 			}
 
+			// Cancelled tasks keep their status
+			if (this.signal.aborted) throw error;
+
 			this.#handleError(error as Error);
 			throw error;
+		} finally {
+			timeout?.clear();
 		}
 	}
 
+	/**
+	 * Checks whether a failed attempt may be retried, based on the retry rules and the remaining retries.
+	 *
+	 * @param error - The error the attempt failed with
+	 * @param retrySchema - Rules for errors that are retryable
+	 * @param nonRetryable - Rules for errors that are never retried, these take precedence
+	 */
+	canRetry(error: unknown, retrySchema: RetryRule[], nonRetryable: RetryRule[] = []): boolean {
+		const err = error instanceof Error ? error : new Error(String(error));
+
+		return this.retryCount < this.maxRetries && isRetryable(err, this, retrySchema, nonRetryable);
+	}
+
+	/**
+	 * Prepares the task for its next attempt.
+	 *
+	 * @param runAt - When the next attempt should run, defaults to as soon as possible
+	 * @returns False if the task has no retries left
+	 */
+	retry(runAt?: Date): boolean {
+		if (this.retryCount >= this.maxRetries) {
+			return false;
+		}
+
+		this.retryCount++;
+		this.status = "pending";
+		this.progress = 0;
+		this.progressMessage = undefined;
+		this.progressData = undefined;
+		this.startedAt = undefined;
+		this.completedAt = undefined;
+		this.failedAt = undefined;
+		this.error = undefined;
+		this.runAt = runAt;
+
+		return true;
+	}
+
+	/**
+	 * Aborted when the task is cancelled while it is running, executors should
+	 * stop their work when it fires.
+	 *
+	 * @example
+	 * ```typescript
+	 * async exec(task: Task<ImportTaskData>) {
+	 *   for (const row of task.data.rows) {
+	 *     task.signal.throwIfAborted();
+	 *     await importRow(row);
+	 *   }
+	 *
+	 *   return { processed: true };
+	 * }
+	 * ```
+	 */
+	get signal(): AbortSignal {
+		return this.#abortController.signal;
+	}
+
+	/**
+	 * Marks the task as timed out, aborts its signal and rejects its promise.
+	 *
+	 * @param error - The timeout error
+	 */
+	timeOut(error: Error): void {
+		this.addError(error);
+		this.status = "timed_out";
+		this.failedAt = new Date();
+		this.progress = 0;
+		this.#abortController.abort(error);
+		this.#reject(error);
+	}
+
+	/**
+	 * Marks a pending task as expired and rejects its promise.
+	 */
+	expire(): void {
+		if (this.status !== "pending") return;
+
+		this.status = "expired";
+		this.completedAt = new Date();
+		this.#reject(new Error("Task expired"));
+	}
+
+	/**
+	 * Checks whether the deadline for the task to start has passed.
+	 *
+	 * @param now - The time to check against
+	 */
+	isExpired(now: Date = new Date()): boolean {
+		return !!this.expiresAt && this.expiresAt <= now;
+	}
+
+	/**
+	 * Marks the task as failed for good and rejects its promise.
+	 *
+	 * @param error - Why the task failed
+	 */
+	fail(error: Error): void {
+		this.#handleError(error);
+	}
+
 	cancel(): void {
 		if (this.status === "pending" || this.status === "running") {
+			const error = new Error("Task cancelled");
+
 			this.status = "cancelled";
 			this.completedAt = new Date();
-			this.#reject(new Error("Task cancelled"));
+			this.#abortController.abort(error);
+			this.#reject(error);
 		}
 	}
 
-	updateProgress(progress: number): void {
+	/**
+	 * Reports the progress of a running task, the update is forwarded to the queue
+	 * when the task runs in a worker.
+	 *
+	 * @param progress - Percentage between 0 and 100
+	 * @param message - Optional description of the current step
+	 * @param data - Optional serializable payload, e.g. the number of processed rows
+	 */
+	updateProgress(progress: number, message?: string, data?: unknown): void {
 		this.progress = Math.max(0, Math.min(100, progress));
+		this.progressMessage = message;
+		this.progressData = data;
+
+		this.#progressListener?.({ progress: this.progress, message, data });
+	}
+
+	onProgress(listener: (progress: TaskProgress) => void): void {
+		this.#progressListener = listener;
+	}
+
+	/**
+	 * Applies the outcome a worker reported for this task and settles its promise.
+	 *
+	 * @param outcome - State of the task copy that was executed in the worker
+	 * @param result - The result returned by the executor, if any
+	 * @param error - The error message reported by the worker, if any
+	 */
+	settle(outcome: QueueTask, result: TaskResult<unknown> | null, error: string | null): void {
+		this.status = outcome.status;
+		this.progress = outcome.progress;
+		this.progressMessage = outcome.progressMessage;
+		this.progressData = outcome.progressData;
+		this.retryCount = outcome.retryCount;
+		this.startedAt = outcome.startedAt;
+		this.completedAt = outcome.completedAt;
+		this.errorHistory = [...outcome.errorHistory];
+
+		switch (this.status) {
+			case "completed":
+				this.#resolve(result);
+				break;
+			case "failed":
+			case "timed_out":
+				this.error = outcome.error ?? new Error(error ?? `Task ${this.uid} failed`);
+				this.failedAt = outcome.failedAt ?? new Date();
+
+				if (this.errorHistory.at(-1)?.message !== this.error.message) {
+					this.errorHistory.push(this.error);
+				}
+
+				this.#reject(this.error);
+				break;
+			case "cancelled":
+				this.#reject(new Error("Task cancelled"));
+				break;
+		}
+	}
 
-		console.log(
-			`(ID: ${this.uid}) ${this.description} }`,
-			"Progress:",
-			`${this.progress}%`
-		);
+	/**
+	 * Settles the promise of this task with the outcome of the task replacing it in the queue,
+	 * so callers waiting for this task aren't left hanging.
+	 *
+	 * @param task - The task taking over
+	 */
+	replaceWith(task: QueueTask<any>): void {
+		task.promise.then(this.#resolve, this.#reject);
+	}
+
+	/**
+	 * Resets the task to a fresh pending state so it can be executed again,
+	 * its error history is kept.
+	 */
+	reset(): void {
+		this.status = "pending";
+		this.progress = 0;
+		this.progressMessage = undefined;
+		this.progressData = undefined;
+		this.retryCount = 0;
+		this.startedAt = undefined;
+		this.failedAt = undefined;
+		this.completedAt = undefined;
+		this.enqueuedAt = undefined;
+		this.error = undefined;
+		this.#abortController = new AbortController();
+		this.promise = this.#createPromise();
 	}
 
 	getStatus(): TaskStatus {
@@ -151,6 +440,8 @@ export default class QueueTask<TData = TaskData> {
 			type: this.type,
 			status: this.status,
 			progress: this.progress,
+			progressMessage: this.progressMessage,
+			progressData: this.progressData,
 			startedAt: this.startedAt,
 			completedAt: this.completedAt,
 			error: this.error,
@@ -158,9 +449,60 @@ export default class QueueTask<TData = TaskData> {
 			maxRetries: this.maxRetries,
 			userId: this.userId,
 			metadata: this.metadata,
+			runAt: this.runAt,
+			enqueuedAt: this.enqueuedAt,
+			expiresAt: this.expiresAt,
 		};
 	}
 
+	/**
+	 * Creates the next occurrence of a recurring task.
+	 *
+	 * @returns A new pending task scheduled at the next occurrence, or undefined if the
+	 * task doesn't repeat or its limit or end date has been reached
+	 */
+	nextOccurrence(): QueueTask<TData> | undefined {
+		if (!this.repeat) return undefined;
+
+		const count = (this.repeat.count ?? 0) + 1;
+		const now = new Date();
+
+		if (this.repeat.limit && count >= this.repeat.limit) return undefined;
+
+		let runAt: Date | undefined;
+
+		if (this.repeat.cron) {
+			runAt = nextCronDate(this.repeat.cron, now);
+		} else if (this.repeat.every && this.repeat.every > 0) {
+			// Keep occurrences aligned to the original schedule, skipping the ones that were missed
+			let next = (this.runAt ?? this.startedAt ?? now).getTime() + this.repeat.every;
+			while (next <= now.getTime()) next += this.repeat.every;
+
+			runAt = new Date(next);
+		}
+
+		if (!runAt || (this.repeat.endDate && runAt > this.repeat.endDate)) {
+			return undefined;
+		}
+
+		return new QueueTask<TData>({
+			name: this.name,
+			type: this.type,
+			description: this.description,
+			priority: this.priority,
+			maxRetries: this.maxRetries,
+			delay: this.delay,
+			timeout: this.timeout,
+			data: this.data,
+			userId: this.userId,
+			metadata: this.metadata,
+			retryPolicy: this.retryPolicy,
+			ttlMs: this.ttlMs,
+			runAt,
+			repeat: { ...this.repeat, count },
+		});
+	}
+
 	readyToRun(): boolean {
 		return !this.runAt || this.runAt <= new Date();
 	}
@@ -168,29 +510,11 @@ export default class QueueTask<TData = TaskData> {
 	addError(error: Error) {
 		this.error = error;
 		this.errorHistory.push(error);
-
-		console.error(`[Anqueue] ${error.message}`);
 	}
 
 	// Private methods
 	// ================================
 
-	#retry(): boolean {
-		if (this.retryCount >= this.maxRetries) {
-			return false;
-		}
-
-		this.retryCount++;
-		this.status = "pending";
-		this.progress = 0;
-		this.startedAt = undefined;
-		this.completedAt = undefined;
-		this.error = undefined;
-
-		return true;
-	}
-
-	
 	#setFailed() {
 		this.status = "failed";
 		this.failedAt = new Date();
@@ -213,30 +537,95 @@ export default class QueueTask<TData = TaskData> {
 	// Utility
 	// ================================
 
-	static fromPlainObject(object: TaskOptions<TaskData>): QueueTask<TaskData> {
-		return new QueueTask({
+	/**
+	 * Serializes the task for IPC and storage, errors are converted to plain objects
+	 * since they don't survive JSON serialization.
+	 */
+	toJSON() {
+		const { promise, error, errorHistory, ...task } = this;
+
+		return {
+			...task,
+			error: error ? serializeError(error) : undefined,
+			errorHistory: errorHistory.map(serializeError),
+		};
+	}
+
+	static fromPlainObject(
+		object: TaskOptions<TaskData> &
+			Partial<Omit<TaskStatus, "error">> & {
+				dependencyResults?: Record<string, unknown>;
+				failedAt?: Date;
+				error?: SerializedError;
+				errorHistory?: SerializedError[];
+			}
+	): QueueTask<TaskData> {
+		const task = new QueueTask({
 			...object
 		});
+
+		// Restore runtime state when the object is a serialized task (e.g. sent over IPC)
+		if (object.status) task.status = object.status;
+		if (object.progress) task.progress = object.progress;
+		if (object.progressMessage) task.progressMessage = object.progressMessage;
+		if (object.progressData !== undefined) task.progressData = object.progressData;
+		if (object.retryCount) task.retryCount = object.retryCount;
+		if (object.startedAt) task.startedAt = new Date(object.startedAt);
+		if (object.completedAt) task.completedAt = new Date(object.completedAt);
+		if (object.failedAt) task.failedAt = new Date(object.failedAt);
+		if (object.dependencyResults) task.dependencyResults = object.dependencyResults;
+		if (object.error) task.error = deserializeError(object.error);
+		if (object.errorHistory) task.errorHistory = object.errorHistory.map(deserializeError);
+
+		return task;
+	}
+
+	#createPromise(): Promise<unknown> {
+		const promise = new Promise((resolve, reject) => {
+			this.#resolve = resolve;
+			this.#reject = reject;
+		});
+
+		// Nobody is required to await a task, don't let a rejection crash the process.
+		promise.catch(() => {});
+
+		return promise;
 	}
 
 	#generateId(): string {
 		return `task_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 	}
 	
-	#createTimeout(): Promise<never> {
-		return new Promise((_, reject) => {
-			setTimeout(() => {
-				reject(new Error(`Task ${this.uid} timed out after ${this.timeout}ms`));
-			}, this.timeout);
-		});
-	}
+	// Rejects `expired` once the task ran longer than its timeout, a hard timeout also aborts the signal
+	#createTimeout(hard: boolean): TaskTimeout {
+		let timer: NodeJS.Timeout | undefined;
+
+		const timeout: TaskTimeout = {
+			expired: new Promise<never>((_, reject) => {
+				timer = setTimeout(() => {
+					timeout.error = new Error(`Task ${this.uid} timed out after ${this.timeout}ms`);
+					if (hard) this.#abortController.abort(timeout.error);
+					reject(timeout.error);
+				}, this.timeout);
+			}),
+			clear: () => clearTimeout(timer),
+		};
 
-	#shouldRetry(error: Error, retrySchema: string[]): boolean {
-		const retryableErrors = [
-			'Network timeout',
-			...retrySchema
-		];
-		
-		return retryableErrors.some(pattern => error.message.includes(pattern));
+		// Only awaited with a soft timeout
+		timeout.expired.catch(() => {});
+
+		return timeout;
 	}
 }
+
+function serializeError(error: Error): SerializedError {
+	return { name: error.name, message: error.message, stack: error.stack };
+}
+
+function deserializeError(data: SerializedError): Error {
+	const error = new Error(data.message);
+	error.name = data.name;
+	error.stack = data.stack;
+
+	return error;
+}
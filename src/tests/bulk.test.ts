@@ -0,0 +1,55 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+
+import { Task } from "../../index.js";
+import { BASIC_COLUMNS, createDatabase, createQueue, registerEchoExecutor } from "./helpers.js";
+
+describe("Queue.addBulk", () => {
+	it("inserts tasks into a table with the basic schema", async () => {
+		const { adapter, rows } = createDatabase(BASIC_COLUMNS);
+		const queue = createQueue({ db: adapter });
+		const tasks = [1, 2, 3].map((row) => new Task({ name: "Import row", type: "import-row", data: { row } }));
+
+		await registerEchoExecutor(queue, "import-row");
+
+		const results = await queue.addBulk(tasks, { persist: true });
+
+		assert.ok(results.every(({ accepted }) => accepted));
+		assert.deepEqual([...rows.values()].map(({ data }) => data), [{ row: 1 }, { row: 2 }, { row: 3 }]);
+		assert.deepEqual(queue.getPendingTasks(), tasks);
+	});
+
+	it("rejects invalid tasks and keeps the valid ones", async () => {
+		const queue = createQueue();
+		const valid = new Task({ name: "Import row", type: "import-row", data: { row: 1 } });
+		const invalid = new Task({ name: "Import row", type: "import-row" });
+		const unknown = new Task({ name: "Export row", type: "export-row", data: { row: 1 } });
+
+		await registerEchoExecutor(queue, "import-row");
+
+		const results = await queue.addBulk([valid, invalid, unknown]);
+
+		assert.deepEqual(
+			results.map(({ accepted }) => accepted),
+			[true, false, false]
+		);
+		assert.deepEqual(queue.getPendingTasks(), [valid]);
+	});
+
+	it("queues none of the tasks when the insert fails", async () => {
+		const { adapter, rows } = createDatabase(BASIC_COLUMNS);
+		const queue = createQueue({ db: adapter });
+		const tasks = [
+			new Task({ name: "Import row", type: "import-row", data: { row: 1 } }),
+			new Task({ name: "Import row", type: "import-row", data: { row: 2 }, priority: 5 }),
+		];
+
+		await registerEchoExecutor(queue, "import-row");
+
+		const results = await queue.addBulk(tasks, { persist: true });
+
+		assert.ok(results.every(({ accepted, reason }) => !accepted && /Unknown argument `priority`/.test(reason ?? "")));
+		assert.equal(rows.size, 0);
+		assert.deepEqual(queue.getPendingTasks(), []);
+	});
+});
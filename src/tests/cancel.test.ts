@@ -0,0 +1,92 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { setTimeout as sleep } from "node:timers/promises";
+
+import { Task } from "../../index.js";
+import { createQueue, createWorkerStub } from "./helpers.js";
+
+describe("Task cancellation", () => {
+	it("remove pending tasks right away", () => {
+		const queue = createQueue();
+		const task = new Task({ name: "Sync", type: "sync" });
+		const cancelled: string[] = [];
+
+		queue.on("cancelled", ({ uid }) => cancelled.push(uid));
+		queue.add(task);
+
+		assert.equal(queue.cancel(task.uid), true);
+		assert.equal(task.status, "cancelled");
+		assert.deepEqual(cancelled, [task.uid]);
+		assert.deepEqual(queue.getTasks(), []);
+		assert.equal(queue.cancel(task.uid), false);
+	});
+
+	it("ask the worker of a running task to cancel it once", () => {
+		const queue = createQueue({ cancelGracePeriodMs: 1000 });
+		const task = new Task({ name: "Sync", type: "sync" });
+		const sent: Record<string, unknown>[] = [];
+
+		queue.workers.get = () =>
+			Object.assign(createWorkerStub(), { send: (data: Record<string, unknown>) => sent.push(data) });
+		queue.add(task);
+		queue.trackDispatched(task, "worker-1");
+
+		assert.equal(queue.cancel(task.uid), true);
+		assert.equal(queue.cancel(task.uid), true);
+		assert.deepEqual(sent, [{ event: "cancelTask", uid: task.uid }]);
+		assert.equal(task.status, "pending");
+	});
+
+	it("recycle the worker of a task that doesn't stop and requeue the other tasks it ran", async () => {
+		const queue = createQueue({ cancelGracePeriodMs: 10 });
+		const stuck = new Task({ name: "Stuck", type: "sync" });
+		const sibling = new Task({ name: "Sibling", type: "sync" });
+		const recycled: string[] = [];
+		const cancelled: string[] = [];
+
+		queue.workers.recycle = (workerId) => {
+			recycled.push(workerId);
+			return undefined;
+		};
+
+		queue.on("cancelled", ({ uid }) => cancelled.push(uid));
+		queue.add(stuck).add(sibling);
+		queue.trackDispatched(stuck, "worker-1");
+		queue.trackDispatched(sibling, "worker-1");
+		queue.reportStarted(stuck, "worker-1");
+		queue.cancel(stuck.uid);
+
+		await sleep(50);
+
+		assert.deepEqual(recycled, ["worker-1"]);
+		assert.equal(stuck.status, "cancelled");
+		assert.deepEqual(cancelled, [stuck.uid]);
+		assert.deepEqual(queue.getPendingTasks(), [sibling]);
+		assert.match(sibling.errorHistory[0].message, /worker worker-1 was recycled/);
+	});
+
+	it("don't recycle the worker of a task that settled in time", async () => {
+		const queue = createQueue({ cancelGracePeriodMs: 10 });
+		const task = new Task({ name: "Sync", type: "sync" });
+		const recycled: string[] = [];
+
+		queue.workers.recycle = (workerId) => {
+			recycled.push(workerId);
+			return undefined;
+		};
+
+		queue.add(task);
+		queue.trackDispatched(task, "worker-1");
+		queue.reportStarted(task, "worker-1");
+		queue.cancel(task.uid);
+
+		const outcome = Task.fromPlainObject({ ...task.toJSON(), status: "cancelled" });
+
+		queue.settle({ task: outcome, error: null, result: { processed: false } });
+		await sleep(50);
+
+		assert.deepEqual(recycled, []);
+		assert.equal(task.status, "cancelled");
+		assert.deepEqual(queue.getRunningTasks(), []);
+	});
+});
@@ -0,0 +1,61 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+
+import { Task } from "../../index.js";
+import { batch, single } from "../task-strategies.js";
+import EchoTask from "./fixtures/echo.js";
+import { createQueue, createWorkerStub } from "./helpers.js";
+
+class LimitedEchoTask extends EchoTask {
+	override concurrency(): number {
+		return 5;
+	}
+}
+
+const echoTasks = (count: number) =>
+	Array.from({ length: count }, () => new Task({ name: "Echo", type: "echo", data: {} }));
+
+describe("Concurrency limits", () => {
+	it("apply the executor's limit unless the queue sets one for the type", () => {
+		const queue = createQueue({ concurrency: { echo: 1 } });
+
+		queue.executorRegistry.getExecutor = (type) => new LimitedEchoTask(type);
+
+		assert.equal(queue.getConcurrencyLimit("echo"), 1);
+		assert.equal(queue.getConcurrencyLimit("report"), 5);
+	});
+
+	it("leave tasks over the queue's limit pending even if the executor allows more", async () => {
+		const queue = createQueue({ concurrency: { echo: 1 } });
+		const tasks = echoTasks(3);
+
+		queue.executorRegistry.getExecutor = (type) => new LimitedEchoTask(type);
+		queue.workers.getAvailable = () => createWorkerStub();
+		for (const task of tasks) queue.add(task);
+
+		const stats = await single(queue, [...tasks]);
+
+		assert.equal(stats.tasksSent, 1);
+		assert.equal(stats.concurrencyLimited, 2);
+		assert.equal(queue.getRunningCount("echo"), 1);
+		assert.deepEqual(queue.getPendingTasks(), tasks.slice(1));
+	});
+
+	it("count the tasks of the batch being built towards the limit", async () => {
+		const queue = createQueue({ concurrency: { echo: 3 } });
+		const [running, ...tasks] = echoTasks(5);
+
+		queue.executorRegistry.getExecutor = (type) => new LimitedEchoTask(type);
+		queue.workers.getAvailableWorkers = () => [createWorkerStub()];
+		queue.add(running);
+		queue.trackDispatched(running, "worker-1");
+		for (const task of tasks) queue.add(task);
+
+		const stats = await batch(queue, [...tasks]);
+
+		assert.equal(stats.tasksSent, 2);
+		assert.equal(stats.concurrencyLimited, 2);
+		assert.equal(queue.getRunningCount("echo"), 3);
+		assert.deepEqual(queue.getPendingTasks(), tasks.slice(2));
+	});
+});
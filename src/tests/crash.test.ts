@@ -0,0 +1,73 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { setTimeout as sleep } from "node:timers/promises";
+
+import type { CrashPolicy } from "../../types/index.d.ts";
+
+import { Task, TaskExecutor } from "../../index.js";
+import { createDatabase, createQueue } from "./helpers.js";
+
+class FailOnCrashTask extends TaskExecutor {
+	override crashPolicy(): CrashPolicy {
+		return "fail";
+	}
+}
+
+describe("Queue.handleWorkerLost", () => {
+	it("requeues the tasks of the crashed worker and counts the attempt with the retry policy", () => {
+		const queue = createQueue();
+		const task = new Task({ name: "Sync", type: "sync" });
+		const retrying: number[] = [];
+
+		queue.on("retrying", (_task, attempt) => retrying.push(attempt));
+		queue.add(task);
+		queue.trackDispatched(task, "worker-1");
+		queue.handleWorkerLost("worker-1", "exit code 1");
+
+		assert.equal(task.status, "pending");
+		assert.equal(task.retryCount, 1);
+		assert.deepEqual(retrying, [1]);
+		assert.ok(task.runAt! > new Date());
+		assert.deepEqual(queue.getTasks(), [task]);
+		assert.match(task.errorHistory[0].message, /Worker crashed \(exit code 1\)/);
+	});
+
+	it("fails the tasks of the crashed worker and persists the error with the fail policy", async () => {
+		const { adapter } = createDatabase();
+		const queue = createQueue({ db: adapter });
+		const task = new Task({ name: "Sync", type: "sync" });
+
+		queue.executorRegistry.getExecutor = () => new FailOnCrashTask("sync");
+		queue.add(task);
+		queue.trackDispatched(task, "worker-1");
+		queue.handleWorkerLost("worker-1", "exit code 1");
+
+		await sleep(10);
+
+		const stored = await queue.store.findTask(task.uid);
+		const [deadLetter] = await queue.listDeadLetters();
+
+		assert.equal(task.retryCount, 0);
+		assert.equal(stored?.status, "dead");
+		assert.match(stored!.errorHistory.at(-1)!.message, /Worker crashed \(exit code 1\)/);
+		assert.equal(deadLetter.task.uid, task.uid);
+		assert.deepEqual(queue.getTasks(), []);
+	});
+
+	it("fails the tasks of the crashed worker that have no retries left", () => {
+		const queue = createQueue();
+		const task = new Task({ name: "Sync", type: "sync", maxRetries: 1 });
+		const failed: (string | null)[] = [];
+
+		queue.on("failed", (_task, error) => failed.push(error));
+		task.retryCount = 1;
+		queue.add(task);
+		queue.trackDispatched(task, "worker-1");
+		queue.handleWorkerLost("worker-1", "exit code 1");
+
+		assert.equal(task.status, "dead");
+		assert.equal(task.retryCount, 1);
+		assert.deepEqual(failed, ["Worker crashed (exit code 1)"]);
+		assert.deepEqual(queue.getTasks(), []);
+	});
+});
@@ -0,0 +1,64 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+
+import { nextCronDate, parseCron } from "../lib/cron.js";
+
+describe("parseCron", () => {
+	it("parses wildcards, ranges, lists and steps", () => {
+		const schedule = parseCron("*/15 9-17 1,15 * 1-5");
+
+		assert.deepEqual([...schedule.minutes], [0, 15, 30, 45]);
+		assert.deepEqual([...schedule.hours], [9, 10, 11, 12, 13, 14, 15, 16, 17]);
+		assert.deepEqual([...schedule.daysOfMonth], [1, 15]);
+		assert.equal(schedule.months.size, 12);
+		assert.deepEqual([...schedule.daysOfWeek], [1, 2, 3, 4, 5]);
+		assert.equal(schedule.restrictedDays, true);
+	});
+
+	it("expands aliases", () => {
+		const schedule = parseCron("@daily");
+
+		assert.deepEqual([...schedule.minutes], [0]);
+		assert.deepEqual([...schedule.hours], [0]);
+		assert.equal(schedule.restrictedDays, false);
+	});
+
+	it("treats day of week 7 as sunday", () => {
+		assert.deepEqual([...parseCron("0 0 * * 7").daysOfWeek], [0]);
+		assert.deepEqual([...parseCron("0 0 * * 5-7").daysOfWeek].sort(), [0, 5, 6]);
+	});
+
+	it("rejects empty list items and range bounds", () => {
+		for (const expression of ["1,,2 * * * *", "0 0 * * 1,", "-5 * * * *", "0 5- * * *", "*/ * * * *"]) {
+			assert.throws(() => parseCron(expression), /Invalid cron field/, expression);
+		}
+	});
+
+	it("rejects values out of range and malformed expressions", () => {
+		assert.throws(() => parseCron("60 * * * *"), /Invalid cron field/);
+		assert.throws(() => parseCron("0 0 0 * *"), /Invalid cron field/);
+		assert.throws(() => parseCron("*/0 * * * *"), /Invalid cron field/);
+		assert.throws(() => parseCron("0 0 * *"), /expected 5 fields/);
+	});
+});
+
+describe("nextCronDate", () => {
+	it("finds the next matching minute after the start date", () => {
+		const from = new Date(2026, 0, 1, 10, 7, 30);
+
+		assert.deepEqual(nextCronDate("*/15 * * * *", from), new Date(2026, 0, 1, 10, 15));
+		assert.deepEqual(nextCronDate("0 9 * * *", from), new Date(2026, 0, 2, 9, 0));
+	});
+
+	it("matches either day when day of month and day of week are both restricted", () => {
+		// January 1st 2026 is a thursday, the 5th a monday
+		const from = new Date(2026, 0, 1, 12, 0);
+
+		assert.deepEqual(nextCronDate("0 0 5 * 1", from), new Date(2026, 0, 5, 0, 0));
+		assert.deepEqual(nextCronDate("0 0 3 * 1", from), new Date(2026, 0, 3, 0, 0));
+	});
+
+	it("returns undefined when no date matches within the lookahead", () => {
+		assert.equal(nextCronDate("0 0 31 2 *", new Date(2026, 0, 1)), undefined);
+	});
+});
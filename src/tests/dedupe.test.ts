@@ -0,0 +1,116 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+
+import { Task } from "../../index.js";
+import { createDatabase, createQueue, registerEchoExecutor } from "./helpers.js";
+
+describe("Deduplication", () => {
+	it("keeps the queued task and returns the queue from add()", () => {
+		const queue = createQueue();
+		const first = new Task({ name: "Charge", type: "charge", idempotencyKey: "order-1" });
+		const second = new Task({ name: "Charge", type: "charge", idempotencyKey: "order-1" });
+
+		assert.equal(queue.add(first).add(second), queue);
+		assert.deepEqual(queue.getPendingTasks(), [first]);
+		assert.equal(queue.findByIdempotencyKey("order-1"), first);
+	});
+
+	it("returns the existing task from enqueue()", async () => {
+		const queue = createQueue();
+		const first = new Task({ name: "Charge", type: "charge", idempotencyKey: "order-1" });
+
+		assert.equal(await queue.enqueue(first), first);
+		assert.equal(await queue.enqueue(new Task({ name: "Charge", type: "charge", idempotencyKey: "order-1" })), first);
+	});
+
+	it("throws for duplicates with the reject policy", () => {
+		const queue = createQueue({ dedupePolicy: "reject" });
+
+		queue.add(new Task({ name: "Charge", type: "charge", idempotencyKey: "order-1" }));
+
+		assert.throws(
+			() => queue.add(new Task({ name: "Charge", type: "charge", idempotencyKey: "order-1" })),
+			/already exists/
+		);
+	});
+
+	it("pushes the existing task back with the extend-delay policy", () => {
+		const queue = createQueue({ dedupePolicy: "extend-delay" });
+		const runAt = new Date(Date.now() + 60000);
+		const first = new Task({ name: "Sync", type: "sync", idempotencyKey: "user-1" });
+
+		queue.add(first);
+		queue.add(new Task({ name: "Sync", type: "sync", idempotencyKey: "user-1", runAt }));
+
+		assert.deepEqual(first.runAt, runAt);
+	});
+
+	it("settles the replaced task with the outcome of its replacement", async () => {
+		const queue = createQueue({ dedupePolicy: "replace" });
+		const first = new Task({ name: "Sync", type: "sync", idempotencyKey: "user-1" });
+		const second = new Task({ name: "Sync", type: "sync", idempotencyKey: "user-1", data: { full: true } });
+
+		queue.add(first).add(second);
+
+		assert.deepEqual(queue.getPendingTasks(), [second]);
+		assert.equal(second.uid, first.uid);
+		assert.equal(first.status, "pending");
+
+		const result = { processed: true, synced: 3 };
+
+		second.status = "completed";
+		second.settle(second, result, null);
+
+		assert.equal(await first.promise, result);
+	});
+
+	it("keeps a duplicate that is only in the database", async () => {
+		const { adapter } = createDatabase();
+		const queue = createQueue({ db: adapter });
+		const stored = new Task({ name: "Charge", type: "charge", idempotencyKey: "order-1" });
+
+		await queue.store.saveTask({ task: stored, error: null, result: { processed: false } });
+
+		const task = await queue.enqueue(new Task({ name: "Charge", type: "charge", idempotencyKey: "order-1" }));
+
+		assert.equal(task.uid, stored.uid);
+		assert.deepEqual(queue.getPendingTasks(), []);
+	});
+
+	it("rejects a duplicate that is only in the database with the reject policy", async () => {
+		const { adapter } = createDatabase();
+		const queue = createQueue({ db: adapter, dedupePolicy: "reject" });
+		const stored = new Task({ name: "Charge", type: "charge", idempotencyKey: "order-1" });
+
+		await queue.store.saveTask({ task: stored, error: null, result: { processed: false } });
+
+		await assert.rejects(
+			queue.enqueue(new Task({ name: "Charge", type: "charge", idempotencyKey: "order-1" })),
+			/already exists/
+		);
+	});
+
+	it("marks tasks of a bulk that are already in the database as deduplicated", async () => {
+		const { adapter, rows } = createDatabase();
+		const queue = createQueue({ db: adapter });
+		const stored = new Task({ name: "Charge", type: "charge", idempotencyKey: "order-1" });
+
+		await registerEchoExecutor(queue, "charge");
+		await queue.store.saveTask({ task: stored, error: null, result: { processed: false } });
+
+		const duplicate = new Task({ name: "Charge", type: "charge", data: {}, idempotencyKey: "order-1" });
+		const fresh = new Task({ name: "Charge", type: "charge", data: {}, idempotencyKey: "order-2" });
+		const results = await queue.addBulk([duplicate, fresh], { persist: true });
+
+		assert.deepEqual(
+			results.map(({ accepted, deduplicated }) => ({ accepted, deduplicated: !!deduplicated })),
+			[
+				{ accepted: true, deduplicated: true },
+				{ accepted: true, deduplicated: false },
+			]
+		);
+		assert.equal(rows.has(duplicate.uid), false);
+		assert.equal(rows.has(fresh.uid), true);
+		assert.deepEqual(queue.getPendingTasks(), [fresh]);
+	});
+});
@@ -0,0 +1,113 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+
+import { Task } from "../../index.js";
+import { createDatabase, createMemoryLogger, createQueue } from "./helpers.js";
+
+describe("Task dependencies", () => {
+	it("hold a task back until its dependencies completed and pass their results", () => {
+		const queue = createQueue();
+		const extract = new Task({ name: "Extract", type: "extract" });
+		const load = new Task({
+			name: "Load",
+			type: "load",
+			dependsOn: [extract.uid],
+			includeDependencyResults: true,
+		});
+
+		queue.add(extract);
+		queue.add(load);
+
+		assert.deepEqual(queue.getPendingTasks(), [extract]);
+
+		queue.remove(extract.uid);
+		queue.recordOutcome(extract.uid, { status: "completed", result: { rows: 3 } });
+
+		assert.deepEqual(queue.getPendingTasks(), [load]);
+		assert.deepEqual(load.dependencyResults, { [extract.uid]: { rows: 3 } });
+	});
+
+	it("cancel the dependent task when a dependency failed by default", () => {
+		const queue = createQueue();
+		const load = new Task({ name: "Load", type: "load", dependsOn: ["task_extract"] });
+		const cancelled: string[] = [];
+
+		queue.on("cancelled", ({ uid }) => cancelled.push(uid));
+		queue.add(load);
+		queue.recordOutcome("task_extract", { status: "failed" });
+
+		assert.equal(load.status, "cancelled");
+		assert.deepEqual(cancelled, [load.uid]);
+		assert.equal(queue.getTask(load.uid), undefined);
+	});
+
+	it("fail the dependent task without dead-lettering it with the fail policy", () => {
+		const queue = createQueue();
+		const load = new Task({
+			name: "Load",
+			type: "load",
+			dependsOn: ["task_extract"],
+			dependencyPolicy: "fail",
+		});
+		const deadLettered: string[] = [];
+
+		queue.on("deadLettered", ({ uid }) => deadLettered.push(uid));
+		queue.add(load);
+		queue.recordOutcome("task_extract", { status: "cancelled" });
+
+		assert.equal(load.status, "failed");
+		assert.deepEqual(deadLettered, []);
+	});
+
+	it("are restored from the database with their policy and retry budget", async () => {
+		const { adapter } = createDatabase();
+		const queue = createQueue({ db: adapter });
+		const load = new Task({
+			name: "Load",
+			type: "load",
+			dependsOn: ["task_extract"],
+			dependencyPolicy: "fail",
+			includeDependencyResults: true,
+			maxRetries: 7,
+			timeout: 1000,
+			ttlMs: 60000,
+			retryPolicy: { strategy: "fixed", delay: 500 },
+		});
+
+		load.retryCount = 2;
+		await queue.store.saveTask({ task: load, error: null, result: { processed: false } });
+
+		const restored = await queue.store.findTask(load.uid);
+
+		assert.ok(restored);
+		assert.deepEqual(restored.dependsOn, ["task_extract"]);
+		assert.equal(restored.dependencyPolicy, "fail");
+		assert.equal(restored.includeDependencyResults, true);
+		assert.equal(restored.retryCount, 2);
+		assert.equal(restored.maxRetries, 7);
+		assert.equal(restored.timeout, 1000);
+		assert.equal(restored.ttlMs, 60000);
+		assert.deepEqual(restored.retryPolicy, { strategy: "fixed", delay: 500 });
+	});
+
+	it("log failures to save a dependent task instead of rejecting in the background", async () => {
+		const { adapter, client } = createDatabase();
+		const logger = createMemoryLogger();
+		const queue = createQueue({ db: adapter, logger });
+		const load = new Task({ name: "Load", type: "load", dependsOn: ["task_extract"] });
+
+		client.tasks.upsert = async () => {
+			throw new Error("Connection lost");
+		};
+
+		queue.add(load);
+		queue.recordOutcome("task_extract", { status: "failed" });
+		await new Promise((resolve) => setImmediate(resolve));
+
+		const entry = logger.entries.find(({ level }) => level === "error");
+
+		assert.ok(entry);
+		assert.equal(entry.taskUid, load.uid);
+		assert.match((entry.err as Error).message, /Connection lost/);
+	});
+});
@@ -0,0 +1,40 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+
+import { Task } from "../../index.js";
+import { createDatabase, createQueue } from "./helpers.js";
+
+describe("Queue.drain", () => {
+	it("persists queued tasks and tasks that never reported back as pending", async () => {
+		const { adapter, rows } = createDatabase();
+		const queue = createQueue({ db: adapter });
+		const queued = new Task({ name: "Sync", type: "sync" });
+		const lost = new Task({ name: "Sync", type: "sync" });
+
+		queue.workers.drain = async () => true;
+		queue.add(queued).add(lost);
+		queue.trackDispatched(lost, "worker-1");
+
+		assert.deepEqual(await queue.drain({ timeoutMs: 50 }), { drained: false, pending: 2 });
+		assert.deepEqual(queue.getRunningTasks(), []);
+		assert.equal(rows.get(queued.uid)?.status, "pending");
+		assert.equal(rows.get(lost.uid)?.status, "pending");
+	});
+
+	it("waits for tasks that report back in time", async () => {
+		const queue = createQueue();
+		const task = new Task({ name: "Sync", type: "sync" });
+
+		queue.workers.drain = async () => true;
+		queue.add(task);
+		queue.trackDispatched(task, "worker-1");
+
+		setTimeout(() => {
+			const outcome = Task.fromPlainObject({ ...task.toJSON(), status: "completed" });
+			queue.settle({ task: outcome, error: null, result: { processed: true } });
+		}, 20);
+
+		assert.deepEqual(await queue.drain({ timeoutMs: 1000 }), { drained: true, pending: 0 });
+		assert.equal(task.status, "completed");
+	});
+});
@@ -0,0 +1,16 @@
+import type { TaskResult, TaskValidationRule } from "../../../types/index.d.ts";
+
+import { Task, TaskExecutor } from "../../../index.js";
+
+/**
+ * Executor returning the data of its task, tasks without data fail validation.
+ */
+export default class EchoTask extends TaskExecutor {
+	override validationSchema(): TaskValidationRule[] {
+		return [(task) => task.data !== undefined];
+	}
+
+	override async exec(task: Task): Promise<TaskResult<{ data: unknown }>> {
+		return { processed: true, data: task.data };
+	}
+}
@@ -0,0 +1,201 @@
+import type { LogFields, LogLevel, Logger, QueueOptions } from "../../types/index.d.ts";
+import type Worker from "../worker.js";
+
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+import Queue, { PrismaAdapter } from "../../index.js";
+
+// Tests never touch a task directory, so there are no types to generate
+process.env.ANQUEUE_GENERATE_TYPES = "false";
+
+/** Columns of the tasks table in the basic schema */
+export const BASIC_COLUMNS = [
+	"uid",
+	"type",
+	"name",
+	"description",
+	"data",
+	"status",
+	"error",
+	"usersId",
+	"started_at",
+	"finished_at",
+];
+
+/** Columns of the tasks table in the full schema from the README */
+export const FULL_COLUMNS = [
+	...BASIC_COLUMNS,
+	"priority",
+	"metadata",
+	"result",
+	"result_expires_at",
+	"run_at",
+	"enqueued_at",
+	"expires_at",
+	"repeat",
+	"depends_on",
+	"dependency_policy",
+	"include_dependency_results",
+	"idempotency_key",
+	"dedupe_policy",
+	"retry_count",
+	"max_retries",
+	"retry_policy",
+	"timeout",
+	"ttl_ms",
+	"error_history",
+	"progress",
+	"progress_message",
+	"progress_data",
+];
+
+export interface LogEntry extends LogFields {
+	level: LogLevel;
+	message: string;
+}
+
+/**
+ * Creates a logger keeping its entries in memory.
+ */
+export function createMemoryLogger(): Logger & { entries: LogEntry[] } {
+	const entries: LogEntry[] = [];
+	const log = (level: LogLevel) => (fields: LogFields, message: string) => {
+		entries.push({ ...fields, level, message });
+	};
+
+	return { entries, debug: log("debug"), info: log("info"), warn: log("warn"), error: log("error") };
+}
+
+/**
+ * Creates a queue that doesn't log, its workers are only spawned by `init()`.
+ */
+export function createQueue(options: QueueOptions = {}): Queue {
+	return new Queue("./tasks", { logger: "silent", ...options });
+}
+
+/**
+ * Creates a stand-in for an idle worker that accepts every task sent to it.
+ */
+export function createWorkerStub(id = "worker-1", maxConcurrentTasks = 10): Worker {
+	return {
+		id,
+		maxConcurrentTasks,
+		cachedInfo: { taskLoad: 0 },
+		send: () => true,
+		reserve: () => {},
+	} as unknown as Worker;
+}
+
+/**
+ * Registers the echo executor of the fixtures for the given task types.
+ */
+export async function registerEchoExecutor(queue: Queue, ...types: string[]): Promise<void> {
+	const importPath = path.join(path.dirname(fileURLToPath(import.meta.url)), "fixtures", "echo.ts");
+
+	for (const type of types) await queue.executorRegistry.register(importPath, type);
+}
+
+type Row = Record<string, unknown>;
+
+// Supports the filters the task store uses: equality, `in` and `lte`
+function matches(row: Row, where: Row = {}): boolean {
+	return Object.entries(where).every(([column, filter]) => {
+		if (filter && typeof filter === "object" && !(filter instanceof Date)) {
+			if ("in" in filter) return (filter.in as unknown[]).includes(row[column]);
+			if ("lte" in filter) return row[column] !== null && (row[column] as Date) <= (filter.lte as Date);
+		}
+
+		return row[column] === filter;
+	});
+}
+
+/**
+ * Creates an in-memory stand-in for a Prisma client with a tasks table, writes to
+ * columns the table doesn't have are rejected like Prisma does.
+ *
+ * @param columns - The columns of the tasks table
+ */
+export function createPrismaClient(columns: string[] = FULL_COLUMNS) {
+	const rows: Map<string, Row> = new Map();
+
+	const check = (data: Row) => {
+		for (const column of Object.keys(data)) {
+			if (!columns.includes(column)) throw new Error(`Unknown argument \`${column}\``);
+		}
+	};
+
+	const insert = (data: Row): Row => {
+		check(data);
+
+		const row = Object.fromEntries(columns.map((column) => [column, data[column] ?? null]));
+		rows.set(row.uid as string, row);
+
+		return { ...row };
+	};
+
+	const update = (row: Row, data: Row): Row => {
+		check(data);
+
+		for (const [column, value] of Object.entries(data)) {
+			if (value !== undefined) row[column] = value;
+		}
+
+		return { ...row };
+	};
+
+	const tasks = {
+		async findFirst({ where }: { where?: Row } = {}) {
+			const row = [...rows.values()].find((row) => matches(row, where));
+			return row ? { ...row } : null;
+		},
+		async findMany({ where }: { where?: Row } = {}) {
+			return [...rows.values()].filter((row) => matches(row, where)).map((row) => ({ ...row }));
+		},
+		async create({ data }: { data: Row }) {
+			return insert(data);
+		},
+		async createMany({ data }: { data: Row[] }) {
+			data.forEach(check);
+			data.forEach(insert);
+			return { count: data.length };
+		},
+		async upsert({ where, update: changes, create }: { where: Row; update: Row; create: Row }) {
+			check(create);
+
+			const row = rows.get(where.uid as string);
+			return row ? update(row, changes) : insert(create);
+		},
+		async update({ where, data }: { where: Row; data: Row }) {
+			const row = rows.get(where.uid as string);
+			if (!row) throw Object.assign(new Error("Record to update not found"), { code: "P2025" });
+
+			return update(row, data);
+		},
+		async updateMany({ where, data }: { where?: Row; data: Row }) {
+			const matching = [...rows.values()].filter((row) => matches(row, where));
+			matching.forEach((row) => update(row, data));
+
+			return { count: matching.length };
+		},
+		async delete({ where }: { where: Row }) {
+			const row = rows.get(where.uid as string);
+			rows.delete(where.uid as string);
+
+			return row;
+		},
+	};
+
+	return { tasks, rows };
+}
+
+/**
+ * Creates a Prisma adapter backed by an in-memory tasks table.
+ *
+ * @param columns - The columns of the tasks table
+ */
+export function createDatabase(columns: string[] = FULL_COLUMNS) {
+	const client = createPrismaClient(columns);
+
+	return { adapter: new PrismaAdapter(client), rows: client.rows, client };
+}
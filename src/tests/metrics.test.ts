@@ -0,0 +1,80 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+
+import { Task } from "../../index.js";
+import MetricsRegistry from "../metrics.js";
+import { toPrometheusText } from "../lib/prometheus.js";
+import { createQueue } from "./helpers.js";
+
+describe("toPrometheusText", () => {
+	it("serializes counters and gauges with their help and type", () => {
+		const metrics = new MetricsRegistry();
+
+		metrics.define("counter", "jobs_total", "Number of jobs");
+		metrics.define("gauge", "queue_depth", "Jobs waiting");
+		metrics.inc("jobs_total", { type: "email" });
+		metrics.inc("jobs_total", { type: "email" }, 2);
+		metrics.set("queue_depth", {}, 4);
+
+		assert.equal(
+			toPrometheusText(metrics.snapshot()),
+			[
+				"# HELP jobs_total Number of jobs",
+				"# TYPE jobs_total counter",
+				'jobs_total{type="email"} 3',
+				"# HELP queue_depth Jobs waiting",
+				"# TYPE queue_depth gauge",
+				"queue_depth 4",
+				"",
+			].join("\n")
+		);
+	});
+
+	it("serializes histograms with cumulative buckets, sum and count", () => {
+		const metrics = new MetricsRegistry();
+
+		metrics.define("histogram", "duration_seconds", "Job duration", [1, 0.1]);
+		metrics.observe("duration_seconds", { type: "email" }, 0.05);
+		metrics.observe("duration_seconds", { type: "email" }, 0.5);
+		metrics.observe("duration_seconds", { type: "email" }, 3);
+
+		assert.deepEqual(toPrometheusText(metrics.snapshot()).split("\n").slice(2), [
+			'duration_seconds_bucket{type="email",le="0.1"} 1',
+			'duration_seconds_bucket{type="email",le="1"} 2',
+			'duration_seconds_bucket{type="email",le="+Inf"} 3',
+			'duration_seconds_sum{type="email"} 3.55',
+			'duration_seconds_count{type="email"} 3',
+			"",
+		]);
+	});
+
+	it("escapes label values and help texts", () => {
+		const metrics = new MetricsRegistry();
+
+		metrics.define("counter", "errors_total", "Errors\nby \\ message");
+		metrics.inc("errors_total", { message: 'say "hi"\n\\' });
+
+		assert.deepEqual(toPrometheusText(metrics.snapshot()).split("\n").slice(0, 3), [
+			"# HELP errors_total Errors\\nby \\\\ message",
+			"# TYPE errors_total counter",
+			'errors_total{message="say \\"hi\\"\\n\\\\"} 1',
+		]);
+	});
+
+	it("returns an empty string without metrics", () => {
+		assert.equal(toPrometheusText([]), "");
+	});
+});
+
+describe("Queue.metrics", () => {
+	it("reports the queue depth by type and priority", () => {
+		const queue = createQueue();
+
+		queue.add(new Task({ name: "Email", type: "email" })).add(new Task({ name: "Email", type: "email", priority: 5 }));
+
+		const text = toPrometheusText(queue.metrics());
+
+		assert.match(text, /^anqueue_queue_depth\{type="email",priority="0"\} 1$/m);
+		assert.match(text, /^anqueue_queue_depth\{type="email",priority="5"\} 1$/m);
+	});
+});
@@ -0,0 +1,77 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+
+import { Task } from "../../index.js";
+import { createQueue } from "./helpers.js";
+
+describe("Priorities", () => {
+	it("schedule higher priorities first and equal priorities in the order they were added", async () => {
+		const queue = createQueue();
+		const low = new Task({ name: "Low", type: "sync" });
+		const first = new Task({ name: "First", type: "sync", priority: 5 });
+		const second = new Task({ name: "Second", type: "sync", priority: 5 });
+		const third = new Task({ name: "Third", type: "sync", priority: 5 });
+
+		queue.add(low).add(first).add(second).add(third);
+		await queue.scheduleTasks();
+
+		assert.deepEqual(queue.getPendingTasks(), [first, second, third, low]);
+	});
+
+	it("raise the priority of waiting tasks by step per interval up to maxBoost", () => {
+		const queue = createQueue({ aging: { intervalMs: 1000, step: 2, maxBoost: 5 } });
+		const task = new Task({ name: "Sync", type: "sync", priority: 1 });
+		const now = Date.now();
+
+		queue.add(task);
+		task.enqueuedAt = new Date(now);
+
+		assert.equal(queue.getEffectivePriority(task, now + 999), 1);
+		assert.equal(queue.getEffectivePriority(task, now + 1000), 3);
+		assert.equal(queue.getEffectivePriority(task, now + 2000), 5);
+		assert.equal(queue.getEffectivePriority(task, now + 60000), 6);
+	});
+
+	it("count the wait time of aging from when the task became due", () => {
+		const queue = createQueue({ aging: { intervalMs: 1000 } });
+		const now = Date.now();
+		const task = new Task({ name: "Sync", type: "sync", runAt: new Date(now + 5000) });
+
+		queue.add(task);
+		task.enqueuedAt = new Date(now);
+
+		assert.equal(queue.getEffectivePriority(task, now + 5000), 0);
+		assert.equal(queue.getEffectivePriority(task, now + 7000), 2);
+	});
+
+	it("schedule aged tasks ahead of newer tasks with a higher priority", async () => {
+		const queue = createQueue({ aging: { intervalMs: 1000, maxBoost: 5 } });
+		const aged = new Task({ name: "Aged", type: "sync" });
+		const newer = new Task({ name: "Newer", type: "sync", priority: 3 });
+		const urgent = new Task({ name: "Urgent", type: "sync", priority: 6 });
+
+		queue.add(newer).add(urgent).add(aged);
+		aged.enqueuedAt = new Date(Date.now() - 60000);
+		await queue.scheduleTasks();
+
+		assert.deepEqual(queue.getPendingTasks(), [urgent, aged, newer]);
+	});
+
+	it("report the effective priority of queued tasks in getTaskStatuses()", () => {
+		const queue = createQueue({ aging: { intervalMs: 1000, maxBoost: 5 } });
+		const aged = new Task({ name: "Aged", type: "sync", priority: 1 });
+		const running = new Task({ name: "Running", type: "sync", priority: 1 });
+
+		queue.add(aged).add(running);
+		aged.enqueuedAt = new Date(Date.now() - 3500);
+		queue.trackDispatched(running, "worker-1");
+
+		assert.deepEqual(
+			queue.getTaskStatuses().map(({ uid, effectivePriority, workerId }) => ({ uid, effectivePriority, workerId })),
+			[
+				{ uid: aged.uid, effectivePriority: 4, workerId: undefined },
+				{ uid: running.uid, effectivePriority: undefined, workerId: "worker-1" },
+			]
+		);
+	});
+});
@@ -0,0 +1,33 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+
+import { Task } from "../../index.js";
+
+describe("Task progress", () => {
+	it("is reported after the task started, even before the executor's first await", async () => {
+		const task = new Task({ name: "Compress", type: "compress-image" });
+		const events: string[] = [];
+
+		task.onProgress(({ progress }) => events.push(`progress ${progress} (${task.status})`));
+
+		await task.execute(
+			async (running) => {
+				running.updateProgress(10);
+				return { processed: true };
+			},
+			{ onStart: () => events.push(`started (${task.status})`) }
+		);
+
+		assert.deepEqual(events, ["started (running)", "progress 10 (running)"]);
+	});
+
+	it("is clamped between 0 and 100", () => {
+		const task = new Task({ name: "Compress", type: "compress-image" });
+
+		task.updateProgress(150, "Done");
+		assert.equal(task.progress, 100);
+
+		task.updateProgress(-5);
+		assert.equal(task.progress, 0);
+	});
+});
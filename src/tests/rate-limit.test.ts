@@ -0,0 +1,80 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { setTimeout as sleep } from "node:timers/promises";
+
+import { Task } from "../../index.js";
+import RateLimiter from "../rate-limiter.js";
+import { single } from "../task-strategies.js";
+import { createQueue, createWorkerStub, registerEchoExecutor } from "./helpers.js";
+
+describe("RateLimiter", () => {
+	it("lets dispatches through again once the oldest one left the window", (t) => {
+		const limiter = new RateLimiter({ sync: { max: 2, perMs: 1000 } });
+		let now = 10000;
+
+		t.mock.method(Date, "now", () => now);
+
+		assert.equal(limiter.tryAcquire("sync"), true);
+		now += 500;
+		assert.equal(limiter.tryAcquire("sync"), true);
+		assert.equal(limiter.tryAcquire("sync"), false);
+		assert.equal(limiter.nextReopenDelay(now), 500);
+
+		// The first dispatch is still within the window at exactly perMs
+		now = 10999;
+		assert.equal(limiter.tryAcquire("sync"), false);
+		now = 11000;
+		assert.equal(limiter.tryAcquire("sync"), true);
+		assert.equal(limiter.nextReopenDelay(now), null);
+	});
+
+	it("applies the queue's limit over the executor's", () => {
+		const limiter = new RateLimiter({ sync: { max: 1, perMs: 60000 } });
+
+		assert.equal(limiter.tryAcquire("sync", { max: 5, perMs: 60000 }), true);
+		assert.equal(limiter.tryAcquire("sync", { max: 5, perMs: 60000 }), false);
+		assert.equal(limiter.tryAcquire("report", { max: 1, perMs: 60000 }), true);
+		assert.equal(limiter.tryAcquire("report", { max: 1, perMs: 60000 }), false);
+		assert.equal(limiter.tryAcquire("cleanup"), true);
+	});
+});
+
+describe("Rate-limited dispatch", () => {
+	it("leaves tasks over the limit pending and counts them", async () => {
+		const queue = createQueue({ rateLimits: { echo: { max: 1, perMs: 60000 } } });
+		const first = new Task({ name: "Echo", type: "echo", data: {} });
+		const second = new Task({ name: "Echo", type: "echo", data: {} });
+
+		await registerEchoExecutor(queue, "echo");
+		queue.workers.getAvailable = () => createWorkerStub();
+		queue.add(first).add(second);
+
+		const stats = await single(queue, [first, second]);
+
+		assert.equal(stats.tasksSent, 1);
+		assert.equal(stats.rateLimited, 1);
+		assert.equal(second.status, "pending");
+		assert.deepEqual(queue.getPendingTasks(), [second]);
+	});
+
+	it("wakes the event-driven dispatcher when the window reopens", async () => {
+		const queue = createQueue({ rateLimits: { echo: { max: 1, perMs: 100 } } });
+
+		await registerEchoExecutor(queue, "echo");
+		queue.workers.getAvailable = () => createWorkerStub();
+		queue.workers.getAvailableWorkers = () => [createWorkerStub()];
+		queue.add(new Task({ name: "Echo", type: "echo", data: {} }));
+		queue.add(new Task({ name: "Echo", type: "echo", data: {} }));
+
+		queue.runAutomatically(60, { mode: "event", syncInterval: 60 });
+		await sleep(50);
+
+		assert.equal(queue.getRunningTasks().length, 1);
+
+		await sleep(150);
+		await queue.stop();
+
+		assert.equal(queue.getRunningTasks().length, 2);
+		assert.deepEqual(queue.getPendingTasks(), []);
+	});
+});
@@ -0,0 +1,79 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+
+import { Task } from "../../index.js";
+import { createDatabase, createQueue } from "./helpers.js";
+
+// Marks a task as completed like a worker reporting back would
+function complete(task: Task, finishedAt = new Date()): Task {
+	task.status = "completed";
+	task.completedAt = finishedAt;
+
+	return task;
+}
+
+describe("ResultStore", () => {
+	it("hands the result of a task to the callers waiting for it", async () => {
+		const queue = createQueue({ results: true });
+		const task = new Task({ name: "Resize", type: "resize" });
+
+		const result = { processed: true, width: 100 };
+		const waiting = queue.waitForResult(task.uid, { timeoutMs: 1000 });
+
+		queue.results!.record(complete(task), result);
+
+		const stored = await waiting;
+
+		assert.equal(stored.status, "completed");
+		assert.deepEqual(stored.result, { width: 100 });
+		assert.deepEqual(await queue.getResult(task.uid), stored);
+	});
+
+	it("forgets results past their retention", async () => {
+		const queue = createQueue({ results: { retentionMs: 1000 } });
+		const task = new Task({ name: "Resize", type: "resize" });
+
+		queue.results!.record(complete(task, new Date(Date.now() - 2000)), { processed: true });
+
+		assert.equal(await queue.getResult(task.uid), undefined);
+	});
+
+	it("rejects when the task didn't finish in time", async () => {
+		const queue = createQueue({ results: true });
+
+		await assert.rejects(queue.waitForResult("task_unknown", { timeoutMs: 10 }), /Timed out waiting/);
+	});
+
+	it("polls the database for tasks finishing in another process", async () => {
+		const { adapter } = createDatabase();
+		const queue = createQueue({ db: adapter, results: { pollIntervalMs: 5 } });
+		const task = new Task({ name: "Resize", type: "resize" });
+
+		const waiting = queue.waitForResult(task.uid, { timeoutMs: 1000 });
+
+		await queue.store.saveTask({ task: complete(task), error: null, result: { processed: true, width: 100 } });
+		queue.results!.forget(task.uid);
+
+		assert.deepEqual((await waiting).result, { width: 100 });
+	});
+
+	it("clears results past their retention from the database when syncing", async () => {
+		const { adapter, rows } = createDatabase();
+		const queue = createQueue({ db: adapter, results: { retentionMs: 1000 } });
+		const recent = new Task({ name: "Resize", type: "resize" });
+		const old = new Task({ name: "Resize", type: "resize" });
+
+		await queue.store.saveTask({ task: complete(recent), error: null, result: { processed: true, width: 100 } });
+		await queue.store.saveTask({
+			task: complete(old, new Date(Date.now() - 2000)),
+			error: null,
+			result: { processed: true, width: 200 },
+		});
+
+		await queue.store.syncWithDB();
+
+		assert.deepEqual(rows.get(recent.uid)?.result, { width: 100 });
+		assert.equal(rows.get(old.uid)?.result, null);
+		assert.equal(rows.get(old.uid)?.result_expires_at, null);
+	});
+});
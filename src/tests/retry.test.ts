@@ -0,0 +1,80 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+
+import { Task } from "../../index.js";
+import { getRetryDelay } from "../lib/backoff.js";
+import { isRetryable, matchesRetryRule } from "../lib/retry.js";
+
+class HttpError extends Error {
+	status: number;
+
+	constructor(status: number) {
+		super(`Request failed with status ${status}`);
+		this.status = status;
+	}
+}
+
+describe("getRetryDelay", () => {
+	const error = new Error("Failed");
+
+	it("grows the delay with the attempt", () => {
+		assert.equal(getRetryDelay({ strategy: "fixed", delay: 500 }, 3, error), 500);
+		assert.equal(getRetryDelay({ strategy: "linear", delay: 500 }, 3, error), 1500);
+		assert.equal(getRetryDelay({ strategy: "exponential", delay: 500 }, 3, error), 2000);
+	});
+
+	it("caps the delay at maxDelay", () => {
+		assert.equal(getRetryDelay({ strategy: "exponential", delay: 1000, maxDelay: 5000 }, 10, error), 5000);
+
+		for (let attempt = 1; attempt <= 10; attempt++) {
+			const delay = getRetryDelay({ strategy: "exponential+jitter", delay: 1000, maxDelay: 5000 }, attempt, error);
+
+			assert.ok(delay >= 0 && delay <= 5000);
+		}
+	});
+
+	it("calls custom policies and never returns a negative delay", () => {
+		assert.equal(getRetryDelay((attempt) => attempt * 100, 4, error), 400);
+		assert.equal(getRetryDelay(() => -100, 1, error), 0);
+	});
+});
+
+describe("Retry rules", () => {
+	const task = new Task({ name: "Sync", type: "sync" });
+
+	it("match messages, codes, error classes and predicates", () => {
+		const reset = Object.assign(new Error("socket hang up"), { code: "ECONNRESET" });
+
+		assert.equal(matchesRetryRule("hang up", reset, task, 1), true);
+		assert.equal(matchesRetryRule("ECONNRESET", reset, task, 1), true);
+		assert.equal(matchesRetryRule({ code: "ECONNRESET" }, reset, task, 1), true);
+		assert.equal(matchesRetryRule(/HANG/i, reset, task, 1), true);
+		assert.equal(matchesRetryRule(HttpError, reset, task, 1), false);
+		assert.equal(matchesRetryRule(HttpError, new HttpError(502), task, 1), true);
+		assert.equal(matchesRetryRule((_error, _task, attempt) => attempt <= 2, reset, task, 3), false);
+	});
+
+	it("let non-retryable rules win", () => {
+		assert.equal(isRetryable(new HttpError(502), task, [HttpError], [/status 502/]), false);
+	});
+
+	it("retry network timeouts by default", () => {
+		assert.equal(isRetryable(new Error("Network timeout"), task, []), true);
+		assert.equal(isRetryable(new Error("Network timeout"), task, [], ["Network timeout"]), false);
+	});
+
+	it("only use the executor's rules once it lists retryable errors", () => {
+		assert.equal(isRetryable(new Error("Network timeout"), task, [HttpError]), false);
+		assert.equal(isRetryable(new HttpError(503), task, [HttpError]), true);
+	});
+
+	it("stop retrying once the task used up its retries", () => {
+		const exhausted = new Task({ name: "Sync", type: "sync", maxRetries: 1 });
+
+		assert.equal(exhausted.canRetry(new HttpError(503), [HttpError]), true);
+
+		exhausted.retryCount = 1;
+
+		assert.equal(exhausted.canRetry(new HttpError(503), [HttpError]), false);
+	});
+});
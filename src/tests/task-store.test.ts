@@ -0,0 +1,130 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+
+import { Task } from "../../index.js";
+import { BASIC_COLUMNS, createDatabase, createMemoryLogger, createQueue } from "./helpers.js";
+
+describe("TaskStore", () => {
+	it("saves tasks that don't use optional features to a table with the basic schema", async () => {
+		const { adapter, rows } = createDatabase(BASIC_COLUMNS);
+		const queue = createQueue({ db: adapter });
+		const task = new Task({ name: "Send email", type: "send-email", data: { to: "a@b.c" } });
+
+		queue.add(task);
+		await queue.store.saveTask({ task, error: null, result: { processed: false } });
+
+		assert.equal(rows.get(task.uid)?.status, "pending");
+		assert.deepEqual(rows.get(task.uid)?.data, { to: "a@b.c" });
+	});
+
+	it("fails to save tasks using a feature whose column is missing", async () => {
+		const { adapter } = createDatabase(BASIC_COLUMNS);
+		const queue = createQueue({ db: adapter });
+		const task = new Task({ name: "Send email", type: "send-email", runAt: new Date() });
+
+		await assert.rejects(
+			queue.store.saveTask({ task, error: null, result: { processed: false } }),
+			/Unknown argument `run_at`/
+		);
+	});
+
+	it("clears feature columns once the table is known to have them", async () => {
+		const { adapter, rows } = createDatabase();
+		const queue = createQueue({ db: adapter });
+		const task = new Task({ name: "Send email", type: "send-email", runAt: new Date(Date.now() + 60000) });
+
+		await queue.store.saveTask({ task, error: null, result: { processed: false } });
+		assert.ok(rows.get(task.uid)?.run_at instanceof Date);
+
+		task.runAt = undefined;
+		await queue.store.saveTask({ task, error: null, result: { processed: false } });
+
+		assert.equal(rows.get(task.uid)?.run_at, null);
+	});
+
+	it("warns about missing feature columns when the database is set", async () => {
+		const { adapter, client } = createDatabase(BASIC_COLUMNS);
+		const logger = createMemoryLogger();
+
+		await client.tasks.create({ data: { uid: "task_1", type: "send-email", status: "completed" } });
+
+		createQueue({ db: adapter, logger });
+		await new Promise((resolve) => setImmediate(resolve));
+
+		const warning = logger.entries.find(({ level }) => level === "warn");
+
+		assert.ok(warning);
+		assert.ok((warning.missing as string[]).includes("run_at"));
+	});
+
+	it("only updates the progress of a task that has a row", async () => {
+		const { adapter, rows } = createDatabase();
+		const queue = createQueue({ db: adapter });
+		const task = new Task({ name: "Compress", type: "compress-image" });
+
+		await queue.store.saveTask({ task, error: null, result: { processed: false } });
+
+		const saved = new Task({ name: "Compress", type: "compress-image" });
+		const unsaved = new Task({ name: "Compress", type: "compress-image" });
+
+		saved.uid = task.uid;
+		saved.status = unsaved.status = "running";
+		saved.progress = unsaved.progress = 50;
+		saved.progressMessage = "Halfway";
+
+		await queue.store.saveProgress(saved);
+		await queue.store.saveProgress(unsaved);
+
+		assert.equal(rows.get(task.uid)?.status, "pending");
+		assert.equal(rows.get(task.uid)?.progress, 50);
+		assert.equal(rows.get(task.uid)?.progress_message, "Halfway");
+		assert.equal(rows.has(unsaved.uid), false);
+	});
+
+	it("skips progress updates when the table has no progress columns", async () => {
+		const { adapter, client } = createDatabase(BASIC_COLUMNS);
+		const queue = createQueue({ db: adapter });
+		const task = new Task({ name: "Compress", type: "compress-image" });
+
+		await queue.store.saveTask({ task, error: null, result: { processed: false } });
+
+		task.progress = 50;
+		client.tasks.updateMany = async () => {
+			throw new Error("Unknown argument `progress`");
+		};
+
+		await queue.store.saveProgress(task);
+	});
+});
+
+describe("PrismaAdapter", () => {
+	it("updates the row when another process created it in the meantime", async () => {
+		const { adapter, client, rows } = createDatabase();
+
+		await client.tasks.create({ data: { uid: "task_1", type: "send-email", status: "pending" } });
+		client.tasks.upsert = async () => {
+			throw Object.assign(new Error("Unique constraint failed"), { code: "P2002" });
+		};
+
+		await adapter.upsert("tasks", {
+			where: { uid: "task_1" },
+			update: { status: "completed" },
+			create: { uid: "task_1", type: "send-email", status: "completed" },
+		});
+
+		assert.equal(rows.get("task_1")?.status, "completed");
+	});
+
+	it("rethrows other errors", async () => {
+		const { adapter } = createDatabase(BASIC_COLUMNS);
+
+		await assert.rejects(
+			adapter.upsert("tasks", {
+				where: { uid: "task_1" },
+				update: { run_at: null },
+				create: { uid: "task_1", run_at: null },
+			}),
+			/Unknown argument/
+		);
+	});
+});
@@ -0,0 +1,124 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { setTimeout as sleep } from "node:timers/promises";
+
+import type { ScalarMetric } from "../../types/index.d.ts";
+
+import { Task } from "../../index.js";
+import { createDatabase, createQueue } from "./helpers.js";
+
+// Executor that only stops once the task's signal is aborted
+const untilAborted = (task: Task) =>
+	new Promise<never>((_, reject) => {
+		task.signal.addEventListener("abort", () => reject(task.signal.reason));
+	});
+
+describe("Task timeouts", () => {
+	it("fail the task right away with a soft timeout", async () => {
+		const task = new Task({ name: "Sync", type: "sync", timeout: 10 });
+
+		await assert.rejects(task.execute(() => sleep(1000, { processed: true })), /timed out after 10ms/);
+
+		assert.equal(task.status, "failed");
+		assert.equal(task.signal.aborted, false);
+	});
+
+	it("abort the signal and settle as timed out once the executor stopped with a hard timeout", async () => {
+		const task = new Task({ name: "Sync", type: "sync", timeout: 10 });
+
+		await assert.rejects(task.execute(untilAborted, { hardTimeout: true }), /timed out after 10ms/);
+
+		assert.equal(task.status, "timed_out");
+		assert.equal(task.signal.aborted, true);
+	});
+
+	it("dead-letter timed out tasks", async () => {
+		const queue = createQueue();
+		const task = new Task({ name: "Sync", type: "sync" });
+		const error = `Task ${task.uid} timed out after ${task.timeout}ms`;
+
+		task.status = "timed_out";
+		queue.settle({ task, error, result: { processed: false } });
+
+		const [deadLetter] = await queue.listDeadLetters();
+
+		assert.equal(deadLetter.task.uid, task.uid);
+		assert.equal(deadLetter.reason, error);
+		assert.equal(task.status, "timed_out");
+	});
+
+	it("keep the timed_out status of dead-lettered tasks in the database", async () => {
+		const { adapter, rows } = createDatabase();
+		const queue = createQueue({ db: adapter, timeoutMode: "hard", timeoutGracePeriodMs: 10 });
+		const task = new Task({ name: "Stuck", type: "sync", timeout: 10 });
+
+		queue.workers.recycle = () => undefined;
+
+		queue.add(task);
+		queue.trackDispatched(task, "worker-1");
+		queue.reportStarted(task, "worker-1");
+
+		await sleep(50);
+
+		assert.equal(rows.get(task.uid)?.status, "timed_out");
+
+		const stored = await queue.store.findTask(task.uid);
+		const [deadLetter] = await createQueue({ db: adapter }).listDeadLetters();
+
+		assert.equal(stored?.status, "timed_out");
+		assert.equal(deadLetter.task.uid, task.uid);
+		assert.equal(deadLetter.task.status, "timed_out");
+	});
+
+	it("recycle the worker of a task that doesn't stop and requeue the other tasks it ran", async () => {
+		const queue = createQueue({ timeoutMode: "hard", timeoutGracePeriodMs: 10 });
+		const stuck = new Task({ name: "Stuck", type: "sync", timeout: 10 });
+		const sibling = new Task({ name: "Sibling", type: "sync" });
+		const recycled: string[] = [];
+
+		queue.workers.recycle = (workerId) => {
+			recycled.push(workerId);
+			return undefined;
+		};
+
+		queue.add(stuck).add(sibling);
+		queue.trackDispatched(stuck, "worker-1");
+		queue.trackDispatched(sibling, "worker-1");
+		queue.reportStarted(stuck, "worker-1");
+
+		await sleep(50);
+
+		const requeued = queue.metricsRegistry
+			.snapshot()
+			.find(({ name }) => name === "anqueue_tasks_requeued_total") as ScalarMetric;
+
+		assert.deepEqual(recycled, ["worker-1"]);
+		assert.equal(stuck.status, "timed_out");
+		assert.deepEqual(queue.getPendingTasks(), [sibling]);
+		assert.match(sibling.errorHistory[0].message, /worker worker-1 was recycled/);
+		assert.deepEqual(requeued.samples, [{ labels: { type: "sync" }, value: 1 }]);
+	});
+
+	it("don't recycle the worker of a task that settled in time", async () => {
+		const queue = createQueue({ timeoutMode: "hard", timeoutGracePeriodMs: 10 });
+		const task = new Task({ name: "Sync", type: "sync", timeout: 10 });
+		const recycled: string[] = [];
+
+		queue.workers.recycle = (workerId) => {
+			recycled.push(workerId);
+			return undefined;
+		};
+
+		queue.add(task);
+		queue.trackDispatched(task, "worker-1");
+		queue.reportStarted(task, "worker-1");
+
+		const outcome = Task.fromPlainObject({ ...task.toJSON(), status: "completed" });
+
+		queue.settle({ task: outcome, error: null, result: { processed: true } });
+		await sleep(50);
+
+		assert.deepEqual(recycled, []);
+		assert.equal(task.status, "completed");
+	});
+});
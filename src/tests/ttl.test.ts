@@ -0,0 +1,57 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { setTimeout as sleep } from "node:timers/promises";
+
+import { Task } from "../../index.js";
+import { createMemoryLogger, createQueue } from "./helpers.js";
+
+describe("Task expiry", () => {
+	it("counts the time to live from runAt or the creation of the task", () => {
+		const runAt = new Date(Date.now() + 60000);
+		const scheduled = new Task({ name: "Send code", type: "send-code", runAt, ttlMs: 1000 });
+		const immediate = new Task({ name: "Send code", type: "send-code", ttlMs: 1000 });
+
+		assert.equal(scheduled.expiresAt?.getTime(), runAt.getTime() + 1000);
+		assert.equal(immediate.isExpired(), false);
+		assert.equal(immediate.isExpired(new Date(Date.now() + 1000)), true);
+	});
+
+	it("expires tasks of a paused type and tasks waiting for their dependencies", async () => {
+		const queue = createQueue();
+		const paused = new Task({ name: "Send code", type: "send-code", ttlMs: 20 });
+		const waiting = new Task({ name: "Send code", type: "send-sms", dependsOn: ["task_login"], ttlMs: 20 });
+		const expired: string[] = [];
+
+		queue.on("expired", ({ uid }) => expired.push(uid));
+
+		await queue.pauseType("send-code");
+		queue.add(paused).add(waiting);
+		queue.runAutomatically(60, { mode: "event", syncInterval: 60 });
+
+		await sleep(100);
+		await queue.stop();
+
+		assert.deepEqual(expired.sort(), [paused.uid, waiting.uid].sort());
+		assert.equal(paused.status, "expired");
+		assert.equal(queue.getTask(waiting.uid), undefined);
+	});
+
+	it("keep the dispatch loop running when a cycle fails", async () => {
+		const logger = createMemoryLogger();
+		const queue = createQueue({ logger });
+		let syncs = 0;
+
+		queue.store.syncWithDB = async () => {
+			syncs += 1;
+			throw new Error("Connection lost");
+		};
+
+		queue.runAutomatically(0.01);
+
+		await sleep(100);
+		await queue.stop();
+
+		assert.ok(syncs > 1);
+		assert.ok(logger.entries.some(({ level, message }) => level === "error" && message === "Task execution cycle failed"));
+	});
+});
@@ -0,0 +1,78 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+
+import { Task } from "../../index.js";
+import { createDatabase, createQueue } from "./helpers.js";
+
+describe("Queue.update", () => {
+	it("holds the task back from dispatch until the update is saved", async () => {
+		const { adapter, client, rows } = createDatabase();
+		const queue = createQueue({ db: adapter });
+		const task = new Task({ name: "Sync", type: "sync" });
+		const upsert = client.tasks.upsert;
+		let save!: () => void;
+
+		client.tasks.upsert = async (args) => {
+			await new Promise<void>((resolve) => (save = resolve));
+			return upsert(args);
+		};
+
+		queue.add(task);
+
+		const updated = queue.update(task.uid, { priority: 10 });
+
+		assert.deepEqual(queue.getPendingTasks(), []);
+
+		save();
+
+		assert.equal(await updated, task);
+		assert.deepEqual(queue.getPendingTasks(), [task]);
+		assert.equal(rows.get(task.uid)?.priority, 10);
+	});
+
+	it("updates tasks that are only in the database", async () => {
+		const { adapter, rows } = createDatabase();
+		const queue = createQueue({ db: adapter });
+		const task = new Task({ name: "Sync", type: "sync" });
+
+		await queue.store.saveTask({ task, error: null, result: null });
+
+		const updated = await queue.update(task.uid, { data: { full: true } });
+
+		assert.deepEqual(updated?.data, { full: true });
+		assert.deepEqual(rows.get(task.uid)?.data, { full: true });
+		assert.deepEqual(queue.getPendingTasks(), []);
+	});
+
+	it("leaves running tasks untouched", async () => {
+		const queue = createQueue();
+		const task = new Task({ name: "Sync", type: "sync" });
+
+		queue.add(task);
+		queue.trackDispatched(task, "worker-1");
+
+		assert.equal(await queue.update(task.uid, { priority: 10 }), undefined);
+		assert.equal(task.priority, 0);
+	});
+});
+
+describe("Queue.retry", () => {
+	it("requeues a failed task from the database with its settings", async () => {
+		const { adapter } = createDatabase();
+		const queue = createQueue({ db: adapter });
+		const task = new Task({ name: "Sync", type: "sync", maxRetries: 7, timeout: 1000 });
+
+		task.status = "failed";
+		task.retryCount = 7;
+		await queue.store.saveTask({ task, error: "Failed", result: null });
+
+		const retried = await queue.retry(task.uid);
+
+		assert.ok(retried);
+		assert.equal(retried.status, "pending");
+		assert.equal(retried.retryCount, 0);
+		assert.equal(retried.maxRetries, 7);
+		assert.equal(retried.timeout, 1000);
+		assert.deepEqual(queue.getPendingTasks(), [retried]);
+	});
+});
@@ -0,0 +1,34 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+
+import type Worker from "../worker.js";
+
+import { Task } from "../../index.js";
+import { single } from "../task-strategies.js";
+import { createQueue, registerEchoExecutor } from "./helpers.js";
+
+describe("Validation failures", () => {
+	it("fail and dead-letter the task once without retrying it", async () => {
+		const queue = createQueue();
+		const task = new Task({ name: "Echo", type: "echo", maxRetries: 3 });
+		const failed: (string | null)[] = [];
+		const retrying: string[] = [];
+
+		await registerEchoExecutor(queue, "echo");
+		queue.workers.getAvailable = () => ({}) as Worker;
+		queue.on("failed", (_task, error) => failed.push(error));
+		queue.on("retrying", ({ uid }) => retrying.push(uid));
+		queue.add(task);
+
+		const stats = await single(queue, [task]);
+
+		assert.equal(stats.validationFailed, 1);
+		assert.equal(task.status, "dead");
+		assert.equal(task.retryCount, 0);
+		assert.equal(failed.length, 1);
+		assert.match(failed[0] ?? "", /validation failed/);
+		assert.deepEqual(retrying, []);
+		assert.deepEqual(queue.getPendingTasks(), []);
+		assert.deepEqual((await queue.listDeadLetters()).map(({ task }) => task), [task]);
+	});
+});
@@ -0,0 +1,73 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { EventEmitter } from "node:events";
+import type { ChildProcess } from "node:child_process";
+
+import type Queue from "../../index.js";
+import type WorkerManager from "../worker-manager.js";
+
+import { Task } from "../../index.js";
+import Worker from "../worker.js";
+import { createQueue } from "./helpers.js";
+
+// Stands in for the forked worker process, messages it emits arrive at the worker
+function createWorker(queue: Queue, maxConcurrentTasks?: number) {
+	const child = Object.assign(new EventEmitter(), { connected: false, send: () => true, kill: () => true });
+	const manager = { getQueue: () => queue } as unknown as WorkerManager;
+	const worker = new Worker(manager, child as unknown as ChildProcess, "worker-1", maxConcurrentTasks);
+
+	return { worker, child };
+}
+
+describe("Worker", () => {
+	it("takes its capacity from the options the process is forked with", () => {
+		const { worker } = createWorker(createQueue(), 5);
+
+		assert.equal(worker.maxConcurrentTasks, 5);
+		worker.close();
+	});
+
+	it("requeues tasks the worker process turned away under full load", () => {
+		const queue = createQueue();
+		const { worker, child } = createWorker(queue);
+		const task = new Task({ name: "Echo", type: "echo" });
+
+		worker.cachedInfo = { workerId: "worker-1", processId: 1, taskLoad: 1, maxLoad: 3, uptime: 1 };
+
+		queue.add(task);
+		queue.trackDispatched(task, "worker-1");
+		child.emit("message", { event: "taskRejected", task: task.toJSON() });
+		worker.close();
+
+		assert.deepEqual(queue.getRunningTasks(), []);
+		assert.equal(queue.getRunningCount("echo"), 0);
+		assert.deepEqual(queue.getPendingTasks(), [task]);
+		assert.equal(task.status, "pending");
+		assert.equal(task.retryCount, 0);
+		assert.equal(worker.cachedInfo.taskLoad, 3);
+	});
+
+	it("fails tasks reported back with an error before they ran", async () => {
+		const queue = createQueue();
+		const { worker, child } = createWorker(queue);
+		const task = new Task({ name: "Echo", type: "echo" });
+		const failed: string[] = [];
+
+		queue.on("failed", ({ uid }) => failed.push(uid));
+		queue.add(task);
+		queue.trackDispatched(task, "worker-1");
+		child.emit("message", {
+			event: "taskInfo",
+			task: task.toJSON(),
+			error: "No executor for type: echo",
+			result: { processed: false },
+			retry: false,
+		});
+		worker.close();
+
+		await assert.rejects(task.promise, /No executor for type: echo/);
+		assert.deepEqual(failed, [task.uid]);
+		assert.deepEqual(queue.getRunningTasks(), []);
+		assert.equal((await queue.listDeadLetters())[0]?.task, task);
+	});
+});
@@ -3,18 +3,22 @@ import { fileURLToPath } from "url";
 import fs from "fs";
 import { fork } from "child_process";
 
-import Queue from "index.js";
+import Queue, { Task } from "index.js";
 import Worker from "./worker.js";
 
 import type {
 	WorkerOptions,
 	WorkerEvent,
 	WorkerInfo,
+	TimeoutMode,
+	LogLevel,
 } from "../types/index.d.ts";
 
 interface WorkerManagerOptions {
 	workerPrefix: string;
 	maxWorkers: number;
+	timeoutMode: TimeoutMode;
+	logLevel: LogLevel | "silent";
 }
 
 type WorkerCandidate = {
@@ -50,6 +54,12 @@ export default class WorkerManager {
 	/** The maximum amount of current worker processes allowed, defaults to 3 */
 	public readonly maxWorkers: number;
 
+	/** How workers handle tasks that exceed their timeout */
+	public readonly timeoutMode: TimeoutMode;
+
+	/** Minimum level of the logs workers forward to the queue's logger */
+	public readonly logLevel: LogLevel | "silent";
+
 	/** The queue instance that this worker manager is associated with */
 	#queue: Queue;
 
@@ -66,6 +76,8 @@ export default class WorkerManager {
 		this.taskDirectory = taskDirectory;
 		this.#queue = queue;
 		this.maxWorkers = opts.maxWorkers;
+		this.timeoutMode = opts.timeoutMode;
+		this.logLevel = opts.logLevel;
 		this.workerPrefix = opts.workerPrefix;
 	}
 
@@ -109,6 +121,16 @@ export default class WorkerManager {
 		return this.#queue;
 	}
 
+	/**
+	 * Gets the tasks a worker is running, according to the queue.
+	 *
+	 * @param workerId - The unique identifier of the worker
+	 * @returns The tasks sent to the worker that haven't reported back yet
+	 */
+	public getTasks(workerId: string): Task[] {
+		return this.#queue.getRunningTasks(workerId).map(({ task }) => task);
+	}
+
 	public getAvailableWorkers(): Worker[] {
 		return this.map((worker) => {
 			if (
@@ -155,6 +177,8 @@ export default class WorkerManager {
 			return this.spawn();
 		}
 
+		if (availableWorker.length === 0) return undefined;
+
 		const leastBusy = availableWorker.reduce((prev, current) => {
 			return prev.cachedInfo!.taskLoad <= current.cachedInfo!.taskLoad
 				? prev
@@ -185,6 +209,68 @@ export default class WorkerManager {
 		if (worker) worker.close(force);
 	}
 
+	/**
+	 * Kills a worker process and spawns a replacement under the same id.
+	 *
+	 * Tasks still running in the worker are lost, the caller is responsible for them.
+	 *
+	 * @param workerId - The unique identifier of the worker to recycle
+	 * @returns The replacement Worker, or undefined if no worker was found
+	 */
+	public recycle(workerId: string): Worker | undefined {
+		const worker = this.get(workerId);
+		if (!worker) return undefined;
+
+		worker.close(true);
+		this.#workers.delete(workerId);
+
+		this.#queue.logger.warn({ workerId }, "Recycling worker");
+
+		this.#queue.metricsRegistry.inc("anqueue_worker_restarts_total", {
+			worker: workerId,
+			reason: "recycle",
+		});
+
+		return this.spawn(workerId);
+	}
+
+	/**
+	 * Waits until no worker reports any running tasks and all their task updates are persisted.
+	 *
+	 * @param timeoutMs - Maximum time to wait in milliseconds
+	 * @returns True if all workers became idle before the timeout, false otherwise
+	 */
+	public async drain(timeoutMs: number): Promise<boolean> {
+		const deadline = Date.now() + timeoutMs;
+
+		while (Date.now() < deadline) {
+			const infos = await Promise.all(this.map((worker) => worker.getInfo()));
+			const busy = infos.some((info) => info !== null && info.taskLoad > 0);
+
+			if (!busy) {
+				await Promise.all(this.map((worker) => worker.settled()));
+				return true;
+			}
+
+			await new Promise((resolve) => setTimeout(resolve, 250));
+		}
+
+		await Promise.all(this.map((worker) => worker.settled()));
+		return false;
+	}
+
+	/**
+	 * Closes and removes all worker processes.
+	 *
+	 * @param force - Whether to kill the processes instead of letting them exit on their own
+	 */
+	public shutdown(force = false): void {
+		for (const [id, worker] of this.#workers) {
+			worker.close(force);
+			this.#workers.delete(id);
+		}
+	}
+
 	/**
 	 * Spawns a new worker process.
 	 *
@@ -213,12 +299,16 @@ export default class WorkerManager {
 		const __dirname = path.dirname(fileURLToPath(import.meta.url));
 		const modulePath = path.join(__dirname, "worker-script.js");
 
+		const maxConcurrentTasks = opts.maxConcurrentTasks || 3;
+
 		const forkOpts = {
 			env: {
 				...process.env,
 				WORKER_ID: workerId,
 				TASK_DIRECTORY: this.taskDirectory,
-				MAX_CONCURRENT_TASKS: String(opts.maxConcurrentTasks || 3),
+				MAX_CONCURRENT_TASKS: String(maxConcurrentTasks),
+				TASK_TIMEOUT_MODE: this.timeoutMode,
+				ANQUEUE_LOG_LEVEL: this.logLevel,
 			},
 		};
 
@@ -228,7 +318,7 @@ export default class WorkerManager {
 			);
 		}
 
-		const worker = new Worker(this, fork(modulePath, [], forkOpts), workerId);
+		const worker = new Worker(this, fork(modulePath, [], forkOpts), workerId, maxConcurrentTasks);
 		this.#workers.set(workerId, worker);
 
 		return worker;
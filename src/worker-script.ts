@@ -5,34 +5,37 @@ import type {
 	WorkerEvent,
 	ProcessEvent,
 	WorkerInfo,
+	Logger,
+	LogFields,
+	LogLevel,
 } from "../types/index.d.ts";
 
 import { hasProperty, MySQLAdapter, PrismaAdapter, Task } from "../index.js";
 import TaskExecutorRegistry from "./task-registry.js";
+import { createLogger, silentLogger, taskFields, toSerializable } from "./lib/logger.js";
 
 // Surface fatal errors that would otherwise silently terminate the worker
 process.on("uncaughtException", (err) => {
-	console.error(
-		`[${process.env.WORKER_ID}] Uncaught exception:`,
-		err instanceof Error ? err.message : String(err)
-	);
-	process.exit(1);
+	exitWithError("Uncaught exception", err);
 });
 
 process.on("unhandledRejection", (reason) => {
-	console.error(
-		`[${process.env.WORKER_ID}] Unhandled rejection:`,
-		reason instanceof Error ? reason.message : String(reason)
-	);
-	process.exit(1);
+	exitWithError("Unhandled rejection", reason);
 });
 
+const LOG_LEVEL = process.env.ANQUEUE_LOG_LEVEL || "info";
 const MAX_TASK_LOAD = Number(process.env.MAX_CONCURRENT_TASKS);
+const PROGRESS_THROTTLE_MS = Number(process.env.PROGRESS_THROTTLE_MS) || 250;
+const HARD_TIMEOUT = process.env.TASK_TIMEOUT_MODE === "hard";
 let taskLoad = 0;
 
+// Tasks currently executing in this worker, keyed by uid so they can be cancelled
+const runningTasks: Map<string, Task> = new Map();
+
 // Custom send method with additional functionality
 function sendDataToProcess(
-	data: { event: ProcessEvent } & Record<string, any>
+	data: { event: ProcessEvent } & Record<string, any>,
+	callback?: (error: Error | null) => void
 ) {
 	// Add metadata to every message
 	const enhancedData = {
@@ -41,7 +44,37 @@ function sendDataToProcess(
 		processId: process.pid,
 	};
 
-	process.send?.(enhancedData);
+	process.send?.(enhancedData, callback);
+}
+
+// Logs are forwarded to the queue's logger in the parent process, which adds the worker id
+function forwardLogs(level: LogLevel) {
+	return (fields: LogFields, message: string) => {
+		sendDataToProcess({ event: "log", level, fields: toSerializable(fields), message });
+	};
+}
+
+const logger: Logger =
+	LOG_LEVEL === "silent"
+		? silentLogger
+		: createLogger(
+				{
+					debug: forwardLogs("debug"),
+					info: forwardLogs("info"),
+					warn: forwardLogs("warn"),
+					error: forwardLogs("error"),
+				},
+				LOG_LEVEL as LogLevel
+		  );
+
+// Exits once the error reached the parent process, the log would get lost otherwise
+function exitWithError(message: string, err: unknown) {
+	if (!process.send || !process.connected || LOG_LEVEL === "silent") process.exit(1);
+
+	sendDataToProcess(
+		{ event: "log", level: "error", fields: toSerializable({ err }), message },
+		() => process.exit(1)
+	);
 }
 
 // Listen for incoming data from the parent process
@@ -72,15 +105,49 @@ function getWorkerInfo(): WorkerInfo {
 }
 
 // Send task related data properly formatted back to the parent process.
-function sendTaskInfo(task: Task | null, error: unknown, result: unknown) {
+function sendTaskInfo(task: Task | null, error: unknown, result: unknown, retry = false) {
 	sendDataToProcess({
 		event: "taskInfo",
 		task: task,
-		error: error instanceof Error ? error.message : String(error),
+		error: error === null ? null : error instanceof Error ? error.message : String(error),
 		result,
+		retry,
 	});
 }
 
+// Forwards progress updates of a task to the parent process at most once per PROGRESS_THROTTLE_MS,
+// the latest update is always sent.
+function throttleProgress(task: Task) {
+	let lastSent = 0;
+	let timer: NodeJS.Timeout | undefined;
+
+	const send = () => {
+		timer = undefined;
+		lastSent = Date.now();
+
+		sendDataToProcess({
+			event: "taskProgress",
+			task,
+			progress: { progress: task.progress, message: task.progressMessage, data: task.progressData },
+		});
+	};
+
+	return {
+		update() {
+			if (timer) return;
+
+			const wait = lastSent + PROGRESS_THROTTLE_MS - Date.now();
+
+			if (wait <= 0) send();
+			else timer = setTimeout(send, wait);
+		},
+		// The final task info carries the last progress, pending updates are dropped
+		stop() {
+			clearTimeout(timer);
+		},
+	};
+}
+
 function m(message: string) {
 	return `[${process.env.WORKER_ID}] ${message}`;
 }
@@ -100,10 +167,13 @@ addWorkerListener("setDatabase", (data) => {
 	db = data.db;
 });
 
+// Thrown for tasks that arrive while the worker runs as many tasks as it may, they are sent back
+class WorkerFullError extends Error {}
+
 // Validation before attempting task execution
 async function withWorkerCapacity<T>(fn: () => Promise<T>): Promise<T> {
 	if (taskLoad >= MAX_TASK_LOAD) {
-		throw new Error(m("Currently under full load"));
+		throw new WorkerFullError(m("Currently under full load"));
 	}
 
 	taskLoad++;
@@ -125,34 +195,71 @@ async function processTasks(taskData: TaskOptions<TaskData>[]) {
 			await withWorkerCapacity(async () => {
 				// Reconstruct a Task instance from plain object
 				const task = Task.fromPlainObject(data);
+
+				// Tasks may arrive at a freshly spawned worker before its executors are loaded
+				await registryInitialized;
+
 				// Immediately process it using the registered executor
 				const executor = taskExecutors.getExecutor(task.type);
 
+				runningTasks.set(task.uid, task);
+
 				if (executor) {
+					// Forward progress updates to the parent process.
+					const progress = throttleProgress(task);
+					task.onProgress(({ progress: percentage, message }) => {
+						logger.debug({ ...taskFields(task), progress: percentage }, message ?? `Progress: ${percentage}%`);
+						progress.update();
+					});
+
 					try {
-						// Execute the task itself.
-						result = await task.execute(executor.exec, executor.retrySchema);
+						// Execute the task itself, the queue learns it started before any progress arrives
+						result = await task.execute(executor.exec, {
+							hardTimeout: HARD_TIMEOUT,
+							onStart: () => sendDataToProcess({ event: "taskStarted", task }),
+						});
+
+						logger.info(
+							{ ...taskFields(task), status: task.status },
+							`"${task.name}" finished with status ${task.status}`
+						);
+
 						// Do any post processing or clean up
 						await executor.onComplete(task, result, db);
 					} catch (error) {
-						task.status = "failed";
+						// Cancelled tasks are reported as they are, without retrying or failure handling
+						if (task.status === "cancelled") {
+							sendTaskInfo(task, task.signal.reason, result);
+							return;
+						}
+
+						// Timed out tasks keep their status
+						if (task.status !== "timed_out") task.status = "failed";
 						task.error =
 							error instanceof Error ? error : new Error(String(error));
 
-						console.error(
-							`(${task.name}): Description: ${task.description} | Status: ${
-								task.status
-							} | Error: ${error instanceof Error ? error.message : String(error)}`
+						// Retries are scheduled by the parent, only the final failure is handled here
+						const retry = task.canRetry(error, executor.retrySchema(), executor.nonRetryable());
+
+						logger[retry ? "warn" : "error"](
+							{ ...taskFields(task), status: task.status, err: task.error, retry },
+							`"${task.name}" ${task.status === "timed_out" ? "timed out" : "failed"}`
 						);
 
-						await executor.onFailure(task, result, error, db);
+						if (!retry) await executor.onFailure(task, result, error, db);
 
 						// Send empty result and error back to parent
-						sendTaskInfo(task, error, result);
+						sendTaskInfo(task, error, result, retry);
+						return;
+					} finally {
+						progress.stop();
 					}
 					// Send result back to parent process for storage and final processing.
 					sendTaskInfo(task, null, result);
 				} else {
+					task.status = "failed";
+					task.failedAt = new Date();
+
 					sendTaskInfo(
 						task,
 						new Error(`No executor for type: ${task.type}`),
@@ -161,9 +268,16 @@ async function processTasks(taskData: TaskOptions<TaskData>[]) {
 				}
 			});
 		} catch (err) {
-			sendTaskInfo(null, err, result);
+			// The queue puts rejected tasks back without counting an attempt
+			if (err instanceof WorkerFullError) {
+				logger.debug({ uid: data.uid, type: data.type }, err.message);
+				sendDataToProcess({ event: "taskRejected", task: data });
+				return;
+			}
+
+			sendTaskInfo({ ...data, status: "failed" } as Task, err, result);
 		} finally {
-			taskLoad--;
+			runningTasks.delete(data.uid!);
 		}
 	});
 }
@@ -177,6 +291,17 @@ addWorkerListener("taskBatch", async (message) => {
 	processTasks(message.batch);
 });
 
+// Abort a running task, the executor is expected to stop once its signal fires
+addWorkerListener("cancelTask", (message) => {
+	const task = runningTasks.get(message.uid);
+	if (!task) return;
+
+	logger.info(taskFields(task), `Cancelling "${task.name}"`);
+	task.cancel();
+});
+
 // Initialize the task executor registry for the worker
-const taskExecutors = new TaskExecutorRegistry();
-await taskExecutors.initialize(process.env.TASK_DIRECTORY!);
+const taskExecutors = new TaskExecutorRegistry(logger);
+const registryInitialized = taskExecutors.initialize(process.env.TASK_DIRECTORY!);
+
+await registryInitialized;
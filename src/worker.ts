@@ -2,32 +2,58 @@ import { ChildProcess } from "child_process";
 
 import { Task } from "../index.js";
 import WorkerManager from "./worker-manager.js";
+import { LOG_LEVELS, taskFields, withFields } from "./lib/logger.js";
 
 import type {
 	ProcessEvent,
 	WorkerEvent,
 	WorkerInfo,
 	WorkerTaskStatus,
+	TaskProgress,
+	Logger,
+	LogFields,
+	LogLevel,
 } from "../types/index.d.ts";
 
 type DataToWorker = { event: WorkerEvent } & Record<string, unknown>;
-type DataFromWorker = { event: ProcessEvent } & WorkerTaskStatus;
+type DataFromWorker = {
+	event: ProcessEvent;
+	progress?: TaskProgress;
+	level?: LogLevel;
+	fields?: LogFields;
+	message?: string;
+} & WorkerTaskStatus;
 
 export default class Worker {
 	public id: string;
-	public maxConcurrentTasks: number = 10;
+	public maxConcurrentTasks: number;
 	public cachedInfo: WorkerInfo | null = null;
 	public cacheInterval: number;
 
 	#manager: WorkerManager;
 	#process: ChildProcess;
+	#infoInterval?: NodeJS.Timeout;
 
-	constructor(manager: WorkerManager, process: ChildProcess, id: string, cacheRate: number = 200) {
+	/** The queue's logger, adding the worker id to every entry */
+	#logger: Logger;
+
+	/** Task updates from the worker that are still being persisted */
+	#pendingUpdates: Set<Promise<void>> = new Set();
+
+	constructor(
+		manager: WorkerManager,
+		process: ChildProcess,
+		id: string,
+		maxConcurrentTasks: number = 3,
+		cacheRate: number = 200
+	) {
 		this.id = id;
+		this.maxConcurrentTasks = maxConcurrentTasks;
 		this.cacheInterval = cacheRate;
 
 		this.#manager = manager;
 		this.#process = process;
+		this.#logger = withFields(manager.getQueue().logger, { workerId: id });
 
 		this.#initialize();
 	}
@@ -37,6 +63,16 @@ export default class Worker {
 		this.#process.send(data);
 	}
 
+	/**
+	 * Counts tasks that were just sent to the worker in its cached load,
+	 * until the next info update reflects them.
+	 *
+	 * @param count - The number of tasks sent
+	 */
+	public reserve(count: number) {
+		if (this.cachedInfo) this.cachedInfo.taskLoad += count;
+	}
+
 	public async getInfo(): Promise<WorkerInfo | null> {
 		return new Promise((resolve) => {
 			const worker = this.#process;
@@ -47,27 +83,34 @@ export default class Worker {
 			}
 
 			const timeout = setTimeout(() => {
+				worker.off("message", listener);
 				resolve(null);
 			}, 5000);
 
-			worker.once(
-				"message",
-				(response: DataFromWorker & { data: WorkerInfo }) => {
-					clearTimeout(timeout);
+			// Task updates share the same channel, so only settle on the worker info response.
+			const listener = (response: DataFromWorker & { data: WorkerInfo }) => {
+				if (response.event !== "workerInfo") return;
 
-					if (response.event === "workerInfo") {
-						this.cachedInfo = response.data;
-						return resolve(response.data);
-					}
+				clearTimeout(timeout);
+				worker.off("message", listener);
 
-					return resolve(null);
-				}
-			);
+				this.cachedInfo = response.data;
+				resolve(response.data);
+			};
+
+			worker.on("message", listener);
 
 			this.send({ event: "getWorkerInfo" });
 		});
 	}
 
+	/**
+	 * Waits until all task updates received from this worker have been handled and persisted.
+	 */
+	public async settled(): Promise<void> {
+		await Promise.all(this.#pendingUpdates);
+	}
+
 	/**
 	 * Closes and removes a worker process.
 	 *
@@ -78,8 +121,10 @@ export default class Worker {
 	public close(force = false) {
 		const worker = this.#process;
 
+		clearInterval(this.#infoInterval);
+
 		worker.removeAllListeners();
-		worker.disconnect();
+		if (worker.connected) worker.disconnect();
 
 		if (force) worker.kill();
 	}
@@ -99,14 +144,20 @@ export default class Worker {
 
 		// In case worker crashes or loses connection, restart it with exponential backoff
 		this.#registerListener("exit", (code, signal) => {
+			// Recover the tasks that were running in the process
+			this.#manager
+				.getQueue()
+				.handleWorkerLost(this.id, signal ? `signal ${signal}` : `exit code ${code}`);
+
 			// Do not restart on clean exits or intentional terminations
 			if (code === 0 || signal === "SIGTERM" || signal === "SIGINT") {
 				this.#manager.remove(this.id);
 				return;
 			}
 
-			console.error(
-				`[${this.id}] Exited with code ${code} and signal ${signal}. Restarting...`
+			this.#logger.error(
+				{ code, signal },
+				`Exited with code ${code} and signal ${signal}. Restarting...`
 			);
 
 			if (restartAttempts < maxRestartAttempts) {
@@ -114,9 +165,13 @@ export default class Worker {
 				restartAttempts++;
 
 				setTimeout(() => {
-					console.log(
-						`[${this.id}] Restarting (attempt ${restartAttempts})`
-					);
+					this.#logger.info({ attempt: restartAttempts }, `Restarting (attempt ${restartAttempts})`);
+
+					this.#manager.getQueue().metricsRegistry.inc("anqueue_worker_restarts_total", {
+						worker: this.id,
+						reason: "crash",
+					});
+
 					// Remove the old worker entry first, then spawn a new one
 					this.#manager.remove(this.id);
 					this.#manager.spawn(this.id);
@@ -124,54 +179,107 @@ export default class Worker {
 			} else {
 				this.close(true);
 				this.#manager.remove(this.id);
-				console.error(
-					`[${this.id}] Closed after exceeding max restart attempts. Manual intervention required.`
+				this.#logger.error(
+					{ attempts: restartAttempts },
+					"Closed after exceeding max restart attempts. Manual intervention required."
 				);
 			}
 		});
 
 		// Incase of on error just log it.
 		this.#registerListener("error", (err) => {
-			console.error(`[${this.id}] Error:`, err.message);
+			this.#logger.error({ err }, "Worker process error");
 		});
 
 		// Catch any task updates using a message listener.
 		this.#registerListener("message", async (data: DataFromWorker) => {
 			const task = data.task as Task;
 			const result = data.result as any;
-
-			if (!task || !result) return;
-
 			const queue = this.#manager.getQueue();
-			const taskStore = queue.store;
-			const taskExecutors = queue.executorRegistry;
-
-			try {
-				if (!taskStore.dbAdaptor) {
-					if (task.status === "completed") {
-						queue.remove(task.uid);
-					}
-					return;
+
+			// Logs of the worker process arrive in the queue's logger
+			if (data.event === "log") {
+				if (data.level && data.level in LOG_LEVELS) {
+					this.#logger[data.level](data.fields ?? {}, data.message ?? "");
 				}
 
-				await taskStore.saveTask(data);
-				
-				const executor = taskExecutors.getExecutor(task.type);
-				
-				if (!executor || !executor.saveResult) return;
-
-				await executor.saveResult(task, result, taskStore.dbAdaptor);
-			} catch (err) {
-				console.error(
-					`[${this.id}] Task update handling error:`,
-					err instanceof Error ? err.message : String(err)
-				);
+				return;
 			}
+
+			if (!task) return;
+
+			if (data.event === "taskStarted") {
+				queue.reportStarted(task, this.id);
+				return;
+			}
+
+			// The worker was full, it stays that way until the next info update
+			if (data.event === "taskRejected") {
+				if (this.cachedInfo) this.cachedInfo.taskLoad = this.maxConcurrentTasks;
+
+				queue.reportRejected(task.uid, this.id);
+				return;
+			}
+
+			if (data.event === "taskProgress") {
+				const update = queue
+					.reportProgress(task.uid, data.progress ?? { progress: task.progress })
+					.catch((err) => {
+						this.#logger.error({ ...taskFields(task), err }, "Task progress handling error");
+					});
+
+				await this.#track(update);
+				return;
+			}
+
+			if (data.event !== "taskInfo" || !result) return;
+
+			// Free the slot right away so the dispatcher can use it before the next info update
+			if (this.cachedInfo) this.cachedInfo.taskLoad = Math.max(0, this.cachedInfo.taskLoad - 1);
+
+			const settled = queue.settle(data);
+
+			await this.#track(this.#handleTaskInfo(settled, data));
 		});
 
 		// And finally add a loop to fetch and cache worker info periodically
-		setInterval(async () => {
+		this.#infoInterval = setInterval(async () => {
 			await this.getInfo();
 		}, this.cacheInterval)
 	}
+
+	async #track(update: Promise<void>) {
+		this.#pendingUpdates.add(update);
+
+		await update.finally(() => this.#pendingUpdates.delete(update));
+	}
+
+	async #handleTaskInfo(task: Task, data: DataFromWorker) {
+		const result = data.result as any;
+
+		const queue = this.#manager.getQueue();
+		const taskStore = queue.store;
+		const taskExecutors = queue.executorRegistry;
+
+		try {
+			await queue.scheduleNextOccurrence(task);
+
+			if (!taskStore.dbAdaptor) {
+				if (task.status === "completed") {
+					queue.remove(task.uid);
+				}
+				return;
+			}
+
+			await taskStore.saveTask({ ...data, task });
+			
+			const executor = taskExecutors.getExecutor(task.type);
+			
+			if (!executor || !executor.saveResult) return;
+
+			await executor.saveResult(task, result, taskStore.dbAdaptor);
+		} catch (err) {
+			this.#logger.error({ ...taskFields(task), err }, "Task update handling error");
+		}
+	}
 }
@@ -15,8 +15,10 @@ export interface DBAdapterInterface {
 	findFirst(table: string, data: any): Promise<any>;
 	findMany(table: string, data: any): Promise<any>;
 	update(table: string, data: any): Promise<any>;
+	updateMany(table: string, data: any): Promise<any>;
 	delete(table: string, data: any): Promise<any>;
 	create(table: string, data: any): Promise<any>;
+	createMany(table: string, data: any): Promise<any>;
 	upsert(table: string, data: any): Promise<any>;
 }
 
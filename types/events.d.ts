@@ -0,0 +1,29 @@
+import type { TaskStatus, TaskResult } from "./task.js";
+
+/**
+ * Lifecycle events emitted by a Queue, keyed by event name with the listener arguments as tuple.
+ */
+export interface QueueEvents {
+    /** A task was added to the queue */
+    added: [task: TaskStatus];
+    /** A task was sent to a worker */
+    dispatched: [task: TaskStatus, workerId: string];
+    /** A worker started executing a task */
+    started: [task: TaskStatus, workerId: string];
+    /** A worker reported progress on a running task, the status includes the progress message and payload */
+    progress: [task: TaskStatus, progress: number];
+    /** A task finished successfully */
+    completed: [task: TaskStatus, result: TaskResult];
+    /** A task failed, either during validation or execution */
+    failed: [task: TaskStatus, error: string | null];
+    /** A failed task was scheduled for another attempt */
+    retrying: [task: TaskStatus, attempt: number, delayMs: number];
+    /** A task was cancelled */
+    cancelled: [task: TaskStatus];
+    /** A task wasn't dispatched before its deadline */
+    expired: [task: TaskStatus];
+    /** A task that ultimately failed was moved to the dead-letter queue */
+    deadLettered: [task: TaskStatus, reason: string];
+}
+
+export type QueueEvent = keyof QueueEvents;
@@ -1,4 +1,6 @@
 import type { AdapterImplemantation } from "../src/database-adapter.ts";
+import type { Task } from "../index.ts";
+import type { Logger, LogLevel } from "./logger.js";
 
 // Re-export all types from their respective modules
 export type * from "./adapter.js";
@@ -6,6 +8,9 @@ export type * from "./task.js";
 export type * from "./taskdata.js";
 export type * from "./adapter.js";
 export type * from "./worker.js";
+export type * from "./events.js";
+export type * from "./metrics.js";
+export type * from "./logger.js";
 
 export type TypeString = "bigint" | "boolean" | "string" | "function" | "number" | "object" | "symbol" | "undefined";
 
@@ -14,4 +19,114 @@ export interface QueueOptions {
     db?: AdapterImplemantation;
     workerPrefix?: string;
     maxWorkers?: number;
+    /** Rate limits per task type, these take precedence over the limits declared by executors */
+    rateLimits?: Record<string, RateLimit>;
+    /** Maximum number of running tasks per task type across all workers, these take precedence over the limits declared by executors */
+    concurrency?: Record<string, number>;
+    /** How tasks with an idempotency key that is already queued or running are handled, defaults to "ignore" */
+    dedupePolicy?: DedupePolicy;
+    /** Persist the paused state through the database adapter so it survives a restart, defaults to false */
+    persistPauseState?: boolean;
+    /** Raise the priority of tasks the longer they wait so low-priority tasks don't starve */
+    aging?: AgingPolicy;
+    /** Milliseconds a running task gets to stop after it was cancelled before its worker is recycled, defaults to 5000 */
+    cancelGracePeriodMs?: number;
+    /** Whether timed out tasks settle right away or once they stopped, defaults to "soft" */
+    timeoutMode?: TimeoutMode;
+    /** Milliseconds a task gets to stop after a hard timeout before its worker is recycled, defaults to 5000 */
+    timeoutGracePeriodMs?: number;
+    /** Keep the results and errors of finished tasks so they can be retrieved with `getResult()`, disabled by default */
+    results?: boolean | ResultStoreOptions;
+    /** Logger receiving the logs of the queue and its workers, defaults to JSON lines on stdout and stderr. "silent" disables logging */
+    logger?: Logger | "silent";
+    /** Minimum level of the logs passed to the logger, defaults to "info" */
+    logLevel?: LogLevel;
+}
+
+export interface ResultStoreOptions {
+    /** Milliseconds results are kept after a task finished, kept forever by default */
+    retentionMs?: number;
+    /** Milliseconds between database lookups while waiting for a result, defaults to 500 */
+    pollIntervalMs?: number;
+}
+
+export interface WaitForResultOptions {
+    /** Maximum time to wait in milliseconds, waits and polls the database forever by default */
+    timeoutMs?: number;
+}
+
+/**
+ * `soft` fails a timed out task right away and leaves its executor running in the background,
+ * `hard` aborts the task's signal, settles it as `timed_out` and replaces the worker if the
+ * executor doesn't stop in time.
+ */
+export type TimeoutMode = "soft" | "hard";
+
+export interface AgingPolicy {
+    /** Wait time in milliseconds after which the priority of a task is raised */
+    intervalMs: number;
+    /** Priority added for every elapsed interval, defaults to 1 */
+    step?: number;
+    /** Maximum priority added to a task, unlimited by default */
+    maxBoost?: number;
+}
+
+export interface RunOptions {
+    /**
+     * `interval` dispatches pending tasks once per delay, `event` dispatches them as soon as they
+     * are added, a worker reports back or a scheduled task becomes due. Defaults to "interval"
+     */
+    mode?: "interval" | "event";
+    /** Seconds between database syncs in `event` mode, defaults to the delay */
+    syncInterval?: number;
+}
+
+export interface PauseState {
+    paused: boolean;
+    pausedTypes: string[];
+}
+
+export interface RateLimit {
+    /** Maximum number of tasks dispatched within the window */
+    max: number;
+    /** Length of the window in milliseconds */
+    perMs: number;
+}
+
+export interface DispatchStats {
+    tasksSent: number;
+    noWorkerAvailable: number;
+    noExecutorFound: number;
+    validationFailed: number;
+    rateLimited: number;
+    concurrencyLimited: number;
+    expired: number;
+}
+
+export interface DrainOptions {
+    /** Maximum time to wait for in-flight tasks in milliseconds, defaults to 30000 */
+    timeoutMs?: number;
+}
+
+export interface BulkAddOptions {
+    /** Insert the accepted tasks into the database in a single call before queueing them, defaults to false */
+    persist?: boolean;
+}
+
+export interface BulkAddResult {
+    uid: string;
+    /** Whether the task was queued, or an existing task with the same idempotency key was kept */
+    accepted: boolean;
+    /** The task that is in the queue, which is the existing task when it was deduplicated */
+    task?: Task;
+    /** Why the task was rejected */
+    reason?: string;
+    deduplicated?: boolean;
+}
+
+export interface DrainResult {
+    /** True if all in-flight tasks finished and reported back before the timeout */
+    drained: boolean;
+    /** Number of tasks left pending in the queue */
+    pending: number;
 }
@@ -0,0 +1,23 @@
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/** Structured fields attached to a log entry, errors are passed as `err` */
+export interface LogFields {
+    queueId?: string;
+    workerId?: string;
+    taskUid?: string;
+    type?: string;
+    err?: unknown;
+    [key: string]: unknown;
+}
+
+/**
+ * Receives the logs of a queue and its workers. Methods take the fields first and the
+ * message second like pino and bunyan, winston loggers are detected and called with the
+ * message first.
+ */
+export interface Logger {
+    debug(fields: LogFields, message: string): void;
+    info(fields: LogFields, message: string): void;
+    warn(fields: LogFields, message: string): void;
+    error(fields: LogFields, message: string): void;
+}
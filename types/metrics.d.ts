@@ -0,0 +1,34 @@
+export type MetricType = "counter" | "gauge" | "histogram";
+
+export type MetricLabels = Record<string, string>;
+
+export interface MetricSample {
+    labels: MetricLabels;
+    value: number;
+}
+
+export interface HistogramSample {
+    labels: MetricLabels;
+    /** Cumulative number of observations less than or equal to each bucket's upper bound, same order as `buckets` */
+    counts: number[];
+    sum: number;
+    count: number;
+}
+
+export interface ScalarMetric {
+    name: string;
+    help: string;
+    type: "counter" | "gauge";
+    samples: MetricSample[];
+}
+
+export interface HistogramMetric {
+    name: string;
+    help: string;
+    type: "histogram";
+    /** Upper bounds of the buckets in ascending order, without `+Inf` */
+    buckets: number[];
+    samples: HistogramSample[];
+}
+
+export type Metric = ScalarMetric | HistogramMetric;
@@ -11,7 +11,7 @@ export interface TaskOptions<TData = TaskData> {
     uid?: string;
     name: string;
     type: string;
-    description: string;
+    description?: string;
     priority?: number;
     maxRetries?: number;
     delay?: number;
@@ -20,16 +20,91 @@ export interface TaskOptions<TData = TaskData> {
     userId?: number;
     metadata?: Record<string, unknown>;
     runAt?: Date;
+    repeat?: RepeatOptions;
+    dependsOn?: string[];
+    dependencyPolicy?: DependencyPolicy;
+    includeDependencyResults?: boolean;
+    idempotencyKey?: string;
+    dedupePolicy?: DedupePolicy;
+    retryPolicy?: RetryPolicy;
+    /** When the task was first added to a queue, restored from the database */
+    enqueuedAt?: Date;
+    /** Deadline for the task to start, it expires when it isn't dispatched before */
+    expiresAt?: Date;
+    /** Time to live in milliseconds, counted from `runAt` or the creation of the task, ignored when `expiresAt` is set */
+    ttlMs?: number;
+}
+
+/** Fields of a queued task that can be changed with `Queue.update()` */
+export interface TaskUpdate<TData = TaskData> {
+    priority?: number;
+    /** When the task may run, `null` makes it due right away */
+    runAt?: Date | null;
+    data?: TData;
+    metadata?: Record<string, unknown>;
+}
+
+export type RetryStrategy = "fixed" | "linear" | "exponential" | "exponential+jitter";
+
+/**
+ * How long to wait before retrying a failed task, either a built-in strategy or
+ * a function returning the delay in milliseconds for an attempt (starting at 1).
+ */
+export type RetryPolicy =
+    | {
+        strategy: RetryStrategy;
+        /** Base delay in milliseconds */
+        delay: number;
+        /** Upper bound of the delay in milliseconds */
+        maxDelay?: number;
+    }
+    | ((attempt: number, error: Error) => number);
+
+/**
+ * Decides whether an error is retryable: a message substring or error code, a regular expression
+ * tested against the message, an error class, a `{ code }` object or a predicate.
+ */
+export type RetryRule =
+    | string
+    | RegExp
+    | (new (...args: any[]) => globalThis.Error)
+    | { code: string | number }
+    | ((error: globalThis.Error, task: Task, attempt: number) => boolean);
+
+/** What happens to a running task when its worker process crashes, `retry` counts as an attempt */
+export type CrashPolicy = "retry" | "fail";
+
+/** How a task is handled when a task with the same idempotency key is already queued or running */
+export type DedupePolicy = "reject" | "replace" | "ignore" | "extend-delay";
+
+/** What happens to a task when one of the tasks it depends on fails or is cancelled */
+export type DependencyPolicy = "fail" | "cancel";
+
+export interface RepeatOptions {
+    /** Cron expression (minute hour day-of-month month day-of-week) the occurrences are scheduled on */
+    cron?: string;
+    /** Fixed interval between occurrences in milliseconds, used when no cron expression is given */
+    every?: number;
+    /** Maximum number of occurrences */
+    limit?: number;
+    /** No occurrences are scheduled after this date */
+    endDate?: Date;
+    /** Number of occurrences that already ran, managed by the queue */
+    count?: number;
 }
 
 export type TaskValidationRule<T extends TaskData = TaskData> = (task: Task<T>) => boolean;
 
+export type TaskState = 'pending' | 'running' | 'completed' | 'failed' | 'timed_out' | 'cancelled' | 'expired' | 'dead';
+
 export interface TaskStatus {
     uid: string;
     name: string;
     type: string;
-    status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+    status: TaskState;
     progress: number;
+    progressMessage?: string;
+    progressData?: unknown;
     startedAt?: Date;
     completedAt?: Date;
     error?: Error;
@@ -38,6 +113,19 @@ export interface TaskStatus {
     userId?: number;
     metadata?: Record<string, unknown>;
     runAt?: Date;
+    enqueuedAt?: Date;
+    expiresAt?: Date;
+    /** Priority including the boost from aging, only set by `Queue.getTaskStatuses()` */
+    effectivePriority?: number;
+    /** Worker the task is running in, only set by `Queue.getTaskStatuses()` */
+    workerId?: string;
+}
+
+export interface TaskProgress {
+    /** Percentage between 0 and 100 */
+    progress: number;
+    message?: string;
+    data?: unknown;
 }
 
 export type TaskResult<T> = {
@@ -48,4 +136,52 @@ export interface WorkerTaskStatus {
     task: Task | null;
     error: string | null;
     result: TaskResult;
+    /** Whether the failed attempt should be retried */
+    retry?: boolean;
+}
+
+export interface InFlightTask {
+    task: Task;
+    workerId: string;
+    dispatchedAt: Date;
+    /** When cancelling the running task was requested */
+    cancelRequestedAt?: Date;
+}
+
+export interface TaskOutcome {
+    status: 'completed' | 'failed' | 'cancelled' | 'expired';
+    result?: unknown;
+}
+
+/** The final outcome of a task kept by the result store */
+export interface StoredResult {
+    uid: string;
+    status: TaskState;
+    /** What the executor returned, only set for completed tasks */
+    result?: unknown;
+    error?: SerializedError;
+    finishedAt: Date;
+    /** When the result is discarded, kept forever if not set */
+    expiresAt?: Date;
+}
+
+export interface SerializedError {
+    name: string;
+    message: string;
+    stack?: string;
+}
+
+export interface DeadLetter {
+    task: Task;
+    /** Why the task ended up in the dead-letter queue */
+    reason: string;
+    errorHistory: SerializedError[];
+    deadAt: Date;
+}
+
+export interface DeadLetterFilter {
+    uids?: string[];
+    type?: string;
+    /** Only dead letters that were moved to the dead-letter queue before this date */
+    before?: Date;
 }
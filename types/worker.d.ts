@@ -2,8 +2,8 @@ export interface WorkerOptions {
     maxConcurrentTasks?: number;
 }
 
-export type ProcessEvent = "workerInfo" | "taskInfo" ;
-export type WorkerEvent = "setDatabase" | "taskSingle" | "taskBatch" | "getWorkerInfo";
+export type ProcessEvent = "workerInfo" | "taskInfo" | "taskStarted" | "taskProgress" | "taskRejected" | "log";
+export type WorkerEvent = "setDatabase" | "taskSingle" | "taskBatch" | "getWorkerInfo" | "cancelTask";
 
 export type WorkerInfo = {
     workerId: string | undefined;